@@ -0,0 +1,60 @@
+/**
+ * EdgePoly Strategies - Batch Backtest Worker
+ *
+ * Worker thread entry for BatchBacktestRunner: runs jobs against the
+ * shared market data until terminated.
+ */
+
+import { parentPort, workerData } from 'node:worker_threads';
+import { isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { IStrategy } from '../types';
+import { BacktestEngine } from './engine';
+import { SharedMarketDataProvider } from './shared-data';
+import type { BatchJob, BatchJobResult, BatchStrategySpec, WorkerSetup } from './batch';
+import { StrategyClasses } from '../strategies';
+
+/**
+ * Fresh instance of a registry strategy, or of a class exported by a module
+ */
+async function createStrategy(spec: BatchStrategySpec): Promise<IStrategy> {
+  if (spec.module) {
+    const path = spec.module.startsWith('.') ? resolve(spec.module) : spec.module;
+    // require also loads TypeScript modules when running under tsx
+    const exports = typeof require === 'function'
+      ? require(path)
+      : await import(isAbsolute(path) ? pathToFileURL(path).href : path);
+    const Strategy = exports[spec.strategy];
+    if (typeof Strategy !== 'function') {
+      throw new Error(`Module '${spec.module}' has no exported strategy class '${spec.strategy}'`);
+    }
+    return new Strategy();
+  }
+
+  const classes: Record<string, new () => IStrategy> = StrategyClasses;
+  const Strategy = classes[spec.strategy] ||
+    Object.values(classes).find(S => new S().config.id === spec.strategy);
+  if (!Strategy) throw new Error(`Unknown strategy: ${spec.strategy}`);
+  return new Strategy();
+}
+
+const setup = workerData as WorkerSetup;
+const engine = new BacktestEngine(
+  new SharedMarketDataProvider(setup.marketData),
+  setup.engineOptions
+);
+
+parentPort?.on('message', async (job: BatchJob) => {
+  let message: BatchJobResult;
+  try {
+    const strategy = await createStrategy(job.spec);
+    const result = await engine.run(strategy, job.config);
+    message = { index: job.index, strategyId: strategy.config.id, result };
+  } catch (error) {
+    message = {
+      index: job.index,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  parentPort?.postMessage(message);
+});
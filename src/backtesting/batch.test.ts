@@ -0,0 +1,67 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { BacktestConfig } from '../types';
+import { BatchBacktestRunner } from './batch';
+import type { BatchBacktestResult } from './batch';
+import { BacktestEngine } from './engine';
+import { SyntheticMarketDataProvider } from './synthetic';
+import { MeanReversionStrategy } from '../strategies/mean-reversion';
+import { MomentumStrategy } from '../strategies/momentum';
+import { correlation } from '../utils/helpers';
+
+describe('BatchBacktestRunner', () => {
+  const provider = new SyntheticMarketDataProvider({ seed: 11, markets: 3, interval: '4h' });
+  let config: BacktestConfig;
+  let batch: BatchBacktestResult;
+
+  beforeAll(async () => {
+    config = {
+      strategyId: 'batch',
+      parameters: {},
+      startDate: new Date('2024-01-01T00:00:00Z'),
+      endDate: new Date('2024-02-01T00:00:00Z'),
+      initialCapital: 10000,
+      markets: await provider.getMarketIds(),
+    };
+    batch = await new BatchBacktestRunner(provider, { workers: 1 }).run([
+      { strategy: 'momentum' },
+      { strategy: 'mean-reversion-v1', name: 'reversion' },
+      { strategy: 'no-such-strategy', name: 'missing' },
+    ], config);
+  }, 60000);
+
+  it('matches direct runs of fresh strategy instances', async () => {
+    const engine = new BacktestEngine(provider);
+    const momentum = await engine.run(new MomentumStrategy(), config);
+    const reversion = await engine.run(new MeanReversionStrategy(), config);
+    expect(momentum.trades.length).toBeGreaterThan(0);
+
+    expect(batch.runs.map(run => [run.name, run.strategyId])).toEqual([
+      ['momentum', 'momentum-v1'],
+      ['reversion', 'mean-reversion-v1'],
+    ]);
+    expect(batch.runs[0].result.summary).toEqual(momentum.summary);
+    expect(batch.runs[1].result.summary).toEqual(reversion.summary);
+    expect(batch.comparison.map(row => row.summary)).toEqual([momentum.summary, reversion.summary]);
+  });
+
+  it('reports failed runs without failing the batch', () => {
+    expect(batch.failures).toEqual([{ name: 'missing', error: 'Unknown strategy: no-such-strategy' }]);
+  });
+
+  it('correlates per-period equity returns', () => {
+    const returns = batch.runs.map(({ result }) =>
+      result.equityCurve.slice(1).map((point, i) => point.equity / result.equityCurve[i].equity - 1)
+    );
+    const expected = correlation(returns[0], returns[1]);
+
+    expect(batch.correlation.names).toEqual(['momentum', 'reversion']);
+    expect(batch.correlation.matrix).toEqual([[1, expected], [expected, 1]]);
+  });
+
+  it('requires distinct run names', async () => {
+    await expect(new BatchBacktestRunner(provider).run([
+      { strategy: 'momentum' },
+      { strategy: 'momentum' },
+    ], config)).rejects.toThrow("Duplicate batch run name 'momentum'");
+  });
+});
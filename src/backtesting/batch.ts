@@ -0,0 +1,259 @@
+/**
+ * EdgePoly Strategies - Batch Backtests
+ *
+ * Runs several strategies over the same market data in worker threads and
+ * compares their results side by side. Market data is loaded once in the
+ * calling thread and shared with the workers through a SharedArrayBuffer.
+ */
+
+import { Worker } from 'node:worker_threads';
+import { cpus } from 'node:os';
+import { dirname, extname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type {
+  BacktestConfig,
+  BacktestResult,
+  BacktestSummary,
+  MarketSnapshot,
+  StrategyParameters,
+} from '../types';
+import type { BacktestEngineOptions, MarketDataProvider } from './engine';
+import { encodeMarketData } from './shared-data';
+import type { SharedMarketData } from './shared-data';
+import { correlation } from '../utils/helpers';
+
+export interface BatchStrategySpec {
+  /**
+   * StrategyRegistry key ('momentum') or strategy id ('momentum-v1'),
+   * or the name of an exported strategy class when `module` is set
+   */
+  strategy: string;
+  module?: string; // path of a module exporting a custom strategy class
+  name?: string; // label in the comparison (default: strategy)
+  parameters?: StrategyParameters; // merged over the config's parameters
+}
+
+export interface BatchBacktestOptions {
+  workers?: number; // default: one per strategy, up to the available cores
+  engine?: Omit<BacktestEngineOptions, 'fillModel'>; // must be cloneable
+}
+
+export interface BatchRun {
+  name: string;
+  strategyId: string;
+  result: BacktestResult;
+}
+
+export interface BatchFailure {
+  name: string;
+  error: string;
+}
+
+export interface BatchComparisonRow {
+  name: string;
+  strategyId: string;
+  summary: BacktestSummary;
+}
+
+export interface BatchBacktestResult {
+  runs: BatchRun[]; // in the order given
+  failures: BatchFailure[];
+  comparison: BatchComparisonRow[];
+  correlation: {
+    names: string[];
+    matrix: number[][]; // correlation of per-period equity returns
+  };
+}
+
+// Messages exchanged with batch-worker.ts
+export interface WorkerSetup {
+  marketData: SharedMarketData;
+  engineOptions: Omit<BacktestEngineOptions, 'fillModel'>;
+}
+
+export interface BatchJob {
+  index: number;
+  spec: BatchStrategySpec;
+  config: BacktestConfig;
+}
+
+export type BatchJobResult =
+  | { index: number; strategyId: string; result: BacktestResult }
+  | { index: number; error: string };
+
+export class BatchBacktestRunner {
+  private dataProvider: MarketDataProvider;
+  private options: BatchBacktestOptions;
+
+  constructor(dataProvider: MarketDataProvider, options: BatchBacktestOptions = {}) {
+    this.dataProvider = dataProvider;
+    this.options = options;
+  }
+
+  /**
+   * Backtest each strategy over config's markets and period. Every run gets
+   * a fresh strategy instance, never the StrategyRegistry singletons.
+   */
+  async run(
+    strategies: BatchStrategySpec[],
+    config: BacktestConfig
+  ): Promise<BatchBacktestResult> {
+    const names = strategies.map(spec => spec.name || spec.strategy);
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate) {
+      throw new Error(`Duplicate batch run name '${duplicate}'; set a distinct name for each run`);
+    }
+
+    const marketData = await this.loadMarketData(config);
+    const jobs: BatchJob[] = strategies.map((spec, index) => ({
+      index,
+      spec,
+      config: { ...config, parameters: { ...config.parameters, ...spec.parameters } },
+    }));
+    const outcomes = await this.runJobs(jobs, {
+      marketData: encodeMarketData(marketData),
+      engineOptions: this.options.engine || {},
+    });
+
+    const runs: BatchRun[] = [];
+    const failures: BatchFailure[] = [];
+    outcomes.forEach((outcome, index) => {
+      if ('error' in outcome) {
+        failures.push({ name: names[index], error: outcome.error });
+      } else {
+        runs.push({
+          name: names[index],
+          strategyId: outcome.strategyId,
+          result: outcome.result,
+        });
+      }
+    });
+
+    return {
+      runs,
+      failures,
+      comparison: runs.map(run => ({
+        name: run.name,
+        strategyId: run.strategyId,
+        summary: run.result.summary,
+      })),
+      correlation: {
+        names: runs.map(run => run.name),
+        matrix: correlationMatrix(runs.map(run => run.result)),
+      },
+    };
+  }
+
+  private async loadMarketData(config: BacktestConfig): Promise<Map<string, MarketSnapshot[]>> {
+    const marketData = new Map<string, MarketSnapshot[]>();
+
+    await Promise.all(
+      (config.markets || []).map(async (marketId) => {
+        marketData.set(
+          marketId,
+          await this.dataProvider.getHistoricalData(marketId, config.startDate, config.endDate)
+        );
+      })
+    );
+
+    // Keep the configured market order regardless of load order
+    return new Map((config.markets || []).map(id => [id, marketData.get(id) || []]));
+  }
+
+  /**
+   * Hand jobs to a pool of workers as they become free
+   */
+  private runJobs(jobs: BatchJob[], setup: WorkerSetup): Promise<BatchJobResult[]> {
+    const available = Math.max(1, cpus().length - 1);
+    const size = Math.max(1, Math.min(this.options.workers || available, jobs.length));
+    const results: BatchJobResult[] = new Array(jobs.length);
+    const workers: Worker[] = [];
+    let next = 0;
+    let completed = 0;
+
+    return new Promise((resolvePromise, reject) => {
+      if (jobs.length === 0) {
+        resolvePromise(results);
+        return;
+      }
+
+      const finish = (error?: Error) => {
+        for (const worker of workers) void worker.terminate();
+        if (error) reject(error);
+        else resolvePromise(results);
+      };
+
+      const dispatch = (worker: Worker) => {
+        if (next < jobs.length) worker.postMessage(jobs[next++]);
+      };
+
+      for (let i = 0; i < size; i++) {
+        const worker = spawnWorker(setup);
+        workers.push(worker);
+
+        worker.on('message', (message: BatchJobResult) => {
+          results[message.index] = message;
+          completed++;
+          if (completed === jobs.length) finish();
+          else dispatch(worker);
+        });
+        worker.on('error', error => finish(error));
+        worker.on('exit', code => {
+          if (code !== 0 && completed < jobs.length) {
+            finish(new Error(`Batch worker exited with code ${code}`));
+          }
+        });
+
+        dispatch(worker);
+      }
+    });
+  }
+}
+
+/**
+ * Pairwise correlation of per-period equity returns, matched by timestamp
+ */
+function correlationMatrix(results: BacktestResult[]): number[][] {
+  const returns = results.map(result => {
+    const byTime = new Map<number, number>();
+    result.equityCurve.slice(1).forEach((point, i) => {
+      const previous = result.equityCurve[i].equity;
+      byTime.set(point.timestamp.getTime(), previous !== 0 ? point.equity / previous - 1 : 0);
+    });
+    return byTime;
+  });
+
+  return returns.map((a, i) =>
+    returns.map((b, j) => {
+      if (i === j) return 1;
+      const times = Array.from(a.keys()).filter(time => b.has(time));
+      return correlation(
+        times.map(time => a.get(time) as number),
+        times.map(time => b.get(time) as number)
+      );
+    })
+  );
+}
+
+/**
+ * Start the batch-worker entry that sits next to this module: the compiled
+ * .js / .mjs in published builds. When running from TypeScript sources
+ * (e.g. `npm run backtest`) the worker registers tsx like its caller.
+ */
+function spawnWorker(setup: WorkerSetup): Worker {
+  const file = currentModuleFile();
+  const extension = extname(file);
+  const entry = join(dirname(file), `batch-worker${extension}`);
+
+  return new Worker(entry, {
+    workerData: setup,
+    execArgv: /^\.[cm]?ts$/.test(extension)
+      ? ['--require', 'tsx/cjs']
+      : undefined,
+  });
+}
+
+function currentModuleFile(): string {
+  // __filename in CommonJS builds and under tsx, import.meta.url in ES module builds
+  return typeof __filename === 'string' ? __filename : fileURLToPath(import.meta.url);
+}
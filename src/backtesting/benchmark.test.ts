@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { BacktestConfig, BenchmarkConfig, BenchmarkPoint, EquityPoint, MarketSnapshot } from '../types';
+import { BenchmarkTracker, calculateBenchmarkMetrics } from './benchmark';
+import { binaryMarket, hour, round } from '../test-helpers';
+
+function track(benchmark: BenchmarkConfig, markets: MarketSnapshot[][]): number[] | undefined {
+  const config: BacktestConfig = {
+    strategyId: 'scripted',
+    parameters: {},
+    startDate: hour(0),
+    endDate: hour(24),
+    initialCapital: 1000,
+    benchmark,
+  };
+  const tracker = new BenchmarkTracker(config);
+
+  for (let i = 0; i < markets[0].length; i++) {
+    for (const market of markets) tracker.observe(market[i]);
+    tracker.record(hour(i));
+  }
+  return round(tracker.finish()?.map(point => point.equity)) as number[] | undefined;
+}
+
+function curve(values: number[]): Array<EquityPoint & BenchmarkPoint> {
+  return values.map((equity, i) => ({
+    timestamp: hour(i),
+    equity,
+    realizedEquity: equity,
+    unrealizedPnl: 0,
+    cash: equity,
+    grossExposure: 0,
+    drawdown: 0,
+    drawdownPercent: 0,
+  }));
+}
+
+describe('BenchmarkTracker', () => {
+  const a = binaryMarket('a', [0.5, 0.6, 0.75]);
+  const b = binaryMarket('b', [0.4, 0.2, 0.2]);
+
+  it('holds equal capital in each market from its first price', () => {
+    expect(track({ type: 'buy_and_hold' }, [a, b])).toEqual([1000, 850, 1000]);
+    // No holds the complement of Yes
+    expect(track({ type: 'buy_and_hold', outcome: 'No' }, [a, b])).toEqual([1000, 1066.666667, 916.6666667]);
+  });
+
+  it('rebalances to equal weights at every step', () => {
+    expect(track({ type: 'equal_weight' }, [a, b])).toEqual([1000, 850, 956.25]);
+  });
+
+  it('values resolved markets at their payout', () => {
+    const resolved = binaryMarket('a', [0.5, 0.6, 0.75], 'Yes');
+    expect(track({ type: 'buy_and_hold' }, [resolved, b])).toEqual([1000, 850, 1250]);
+  });
+
+  it('buys markets first priced at zero once they have a price', () => {
+    const flat = binaryMarket('a', [0.5, 0.5, 0.5]);
+    expect(track({ type: 'buy_and_hold' }, [flat, binaryMarket('c', [0, 0.5, 1])])).toEqual([1000, 1000, 1500]);
+  });
+
+  it('aligns a custom series to the recorded timestamps', () => {
+    const series = [
+      { timestamp: hour(2), equity: 50 },
+      { timestamp: hour(0.5), equity: 40 },
+    ];
+    expect(track({ type: 'custom', series }, [a])).toEqual([1000, 1000, 1250]);
+  });
+});
+
+describe('calculateBenchmarkMetrics', () => {
+  const benchmark = curve([100, 110, 99, 108.9]);
+
+  it('measures a leveraged copy of the benchmark', () => {
+    // Returns of 0.2, -0.2, 0.2 against 0.1, -0.1, 0.1
+    const metrics = calculateBenchmarkMetrics(curve([100, 120, 96, 115.2]), benchmark, 1);
+
+    expect(metrics.beta).toBeCloseTo(2, 10);
+    expect(metrics.alpha).toBeCloseTo(0, 10);
+    expect(metrics.upCapture).toBeCloseTo(2, 10);
+    expect(metrics.downCapture).toBeCloseTo(2, 10);
+    // Active returns 0.1, -0.1, 0.1
+    const sd = Math.sqrt((2 * Math.pow(0.2 / 3, 2) + Math.pow(0.4 / 3, 2)) / 3);
+    expect(metrics.trackingError).toBeCloseTo(sd, 10);
+    expect(metrics.informationRatio).toBeCloseTo(0.1 / 3 / sd, 10);
+  });
+
+  it('annualizes the excess return as alpha', () => {
+    // Returns of 0.11, -0.09, 0.11: one point above the benchmark every period
+    const metrics = calculateBenchmarkMetrics(curve([100, 111, 101.01, 112.1211]), benchmark, 365);
+
+    expect(metrics.beta).toBeCloseTo(1, 10);
+    expect(metrics.alpha).toBeCloseTo(3.65, 10);
+    expect(metrics.trackingError).toBeCloseTo(0, 10);
+    expect(metrics.informationRatio).toBe(0);
+  });
+
+  it('needs at least two returns', () => {
+    expect(calculateBenchmarkMetrics(curve([100, 110]), curve([100, 105]), 365)).toEqual({});
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * EdgePoly Strategies - Benchmarks
+ *
+ * Builds benchmark equity curves and measures a strategy against them.
+ */
+
+import type {
+  BacktestConfig,
+  BenchmarkPoint,
+  EquityPoint,
+  MarketSnapshot,
+  PerformanceMetrics,
+} from '../types';
+
+export type BenchmarkMetrics = Pick<
+  PerformanceMetrics,
+  'alpha' | 'beta' | 'informationRatio' | 'trackingError' | 'upCapture' | 'downCapture'
+>;
+
+interface PriceSeries {
+  times: number[];
+  values: number[];
+}
+
+interface MarketBenchmarkState {
+  last: number; // latest observed value
+  recorded: number; // value at the previous recorded timestamp, NaN before
+  entry?: number; // buy-and-hold entry price
+}
+
+/**
+ * Builds a benchmark curve incrementally from a time-ordered snapshot
+ * stream, keeping only the latest value of each market. Call observe() with
+ * every snapshot up to a timestamp, then record() that timestamp.
+ */
+export class BenchmarkTracker {
+  private markets = new Map<string, MarketBenchmarkState>();
+  private dirty = new Set<MarketBenchmarkState>();
+  private timestamps: number[] = [];
+  private holdSums: number[] = []; // sum of price / entry over entered markets
+  private holdCounts: number[] = []; // number of entered markets
+  private equalWeightValues: number[] = [];
+  private holdSum = 0;
+  private holdCount = 0;
+  private positiveCount = 0; // markets whose recorded value is above zero
+
+  constructor(private config: BacktestConfig) {}
+
+  observe(snapshot: MarketSnapshot): void {
+    const benchmark = this.config.benchmark;
+    if (!benchmark || benchmark.type === 'custom') return;
+
+    const value = outcomeValue(snapshot, benchmark.outcome || 'yes');
+    if (value === undefined) return;
+
+    let state = this.markets.get(snapshot.id);
+    if (!state) {
+      state = { last: value, recorded: NaN };
+      this.markets.set(snapshot.id, state);
+    }
+
+    state.last = value;
+    this.dirty.add(state);
+  }
+
+  record(timestamp: Date): void {
+    let returnSum = 0;
+    const previousPositive = this.positiveCount;
+
+    for (const state of this.dirty) {
+      if (state.recorded > 0) {
+        returnSum += state.last / state.recorded - 1;
+        this.positiveCount--;
+      }
+      if (state.last > 0) this.positiveCount++;
+
+      if (state.entry !== undefined) {
+        this.holdSum += (state.last - state.recorded) / state.entry;
+      } else if (state.last > 0) {
+        // Allocation sits in cash until the market has a non-zero price,
+        // which becomes its entry
+        state.entry = state.last;
+        this.holdSum += 1;
+        this.holdCount++;
+      }
+
+      state.recorded = state.last;
+    }
+    this.dirty.clear();
+
+    // Average period return of the markets priced at the previous timestamp,
+    // rebalanced every timestamp
+    const previous = this.equalWeightValues[this.equalWeightValues.length - 1];
+    const meanReturn = previousPositive > 0 ? returnSum / previousPositive : 0;
+    this.equalWeightValues.push(previous === undefined ? 1 : previous * (1 + meanReturn));
+
+    this.timestamps.push(timestamp.getTime());
+    this.holdSums.push(this.holdSum);
+    this.holdCounts.push(this.holdCount);
+  }
+
+  /**
+   * Benchmark equity at each recorded timestamp, scaled to start at the
+   * initial capital. Returns undefined when no benchmark is configured or it
+   * has no data.
+   */
+  finish(): BenchmarkPoint[] | undefined {
+    const benchmark = this.config.benchmark;
+    if (!benchmark || this.timestamps.length === 0) return undefined;
+
+    let values: number[];
+    if (benchmark.type === 'custom') {
+      const series = [...benchmark.series]
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      values = alignSeries({
+        times: series.map(point => point.timestamp.getTime()),
+        values: series.map(point => point.equity),
+      }, this.timestamps);
+    } else {
+      const marketCount = this.markets.size;
+      if (marketCount === 0) return undefined;
+
+      // Equal capital in each market at its first non-zero price, never
+      // rebalanced; markets not yet priced count at their initial allocation
+      values = benchmark.type === 'buy_and_hold'
+        ? this.holdSums.map((sum, i) => (sum + marketCount - this.holdCounts[i]) / marketCount)
+        : this.equalWeightValues;
+    }
+
+    const base = values.find(v => Number.isFinite(v) && v > 0);
+    if (base === undefined) return undefined;
+
+    // Before the benchmark has data it is flat at its first value
+    let last = base;
+    return this.timestamps.map((time, i) => {
+      if (Number.isFinite(values[i])) last = values[i];
+      return {
+        timestamp: new Date(time),
+        equity: (last / base) * this.config.initialCapital,
+      };
+    });
+  }
+}
+
+/**
+ * Alpha, beta, tracking error, information ratio and up/down capture of
+ * per-period strategy returns against benchmark returns
+ */
+export function calculateBenchmarkMetrics(
+  equityCurve: EquityPoint[],
+  benchmarkCurve: BenchmarkPoint[],
+  periodsPerYear: number
+): BenchmarkMetrics {
+  const strategyReturns = toReturns(equityCurve.map(point => point.equity));
+  const benchmarkReturns = toReturns(benchmarkCurve.map(point => point.equity));
+  const count = Math.min(strategyReturns.length, benchmarkReturns.length);
+  if (count < 2) return {};
+
+  const s = strategyReturns.slice(0, count);
+  const b = benchmarkReturns.slice(0, count);
+  const meanS = mean(s);
+  const meanB = mean(b);
+
+  let covariance = 0;
+  let varianceB = 0;
+  for (let i = 0; i < count; i++) {
+    covariance += (s[i] - meanS) * (b[i] - meanB);
+    varianceB += Math.pow(b[i] - meanB, 2);
+  }
+  covariance /= count;
+  varianceB /= count;
+
+  const beta = varianceB > 0 ? covariance / varianceB : 0;
+  const alpha = (meanS - beta * meanB) * periodsPerYear;
+
+  const active = s.map((r, i) => r - b[i]);
+  const meanActive = mean(active);
+  const trackingError = Math.sqrt(
+    active.reduce((sum, r) => sum + Math.pow(r - meanActive, 2), 0) / count
+  ) * Math.sqrt(periodsPerYear);
+  // Ignore floating-point noise when the strategy tracks the benchmark exactly
+  const informationRatio = trackingError > 1e-12
+    ? (meanActive * periodsPerYear) / trackingError
+    : 0;
+
+  return {
+    alpha,
+    beta,
+    trackingError,
+    informationRatio,
+    upCapture: captureRatio(s, b, r => r > 0),
+    downCapture: captureRatio(s, b, r => r < 0),
+  };
+}
+
+/**
+ * Price of the chosen outcome; resolved snapshots are valued at their
+ * 1.0 / 0.0 payout
+ */
+function outcomeValue(snapshot: MarketSnapshot, outcomeName: string): number | undefined {
+  const wanted = outcomeName.toLowerCase();
+  const outcome = snapshot.outcomes.find(o =>
+    o.name.toLowerCase() === wanted || o.id.toLowerCase() === wanted
+  ) || snapshot.outcomes[0];
+  if (!outcome) return undefined;
+
+  if (snapshot.resolved && snapshot.resolutionOutcome) {
+    const resolution = snapshot.resolutionOutcome.toLowerCase();
+    return outcome.id.toLowerCase() === resolution || outcome.name.toLowerCase() === resolution
+      ? 1
+      : 0;
+  }
+
+  return outcome.price;
+}
+
+/**
+ * Latest value at or before each timestamp, NaN before the series starts
+ */
+function alignSeries(series: PriceSeries, timestamps: number[]): number[] {
+  const aligned: number[] = [];
+  let index = -1;
+
+  for (const time of timestamps) {
+    while (index + 1 < series.times.length && series.times[index + 1] <= time) {
+      index++;
+    }
+    aligned.push(index >= 0 ? series.values[index] : NaN);
+  }
+
+  return aligned;
+}
+
+function captureRatio(
+  strategy: number[],
+  benchmark: number[],
+  include: (r: number) => boolean
+): number {
+  const indices = benchmark.map((r, i) => (include(r) ? i : -1)).filter(i => i >= 0);
+  if (indices.length === 0) return 0;
+
+  const benchmarkMean = mean(indices.map(i => benchmark[i]));
+  return benchmarkMean !== 0 ? mean(indices.map(i => strategy[i])) / benchmarkMean : 0;
+}
+
+function toReturns(values: number[]): number[] {
+  return values.slice(1).map((value, i) =>
+    values[i] !== 0 ? (value - values[i]) / values[i] : 0
+  );
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
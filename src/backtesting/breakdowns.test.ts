@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { BacktestTrade, SignalStrength } from '../types';
+import { calculateTradeBreakdowns, summarizeTrades } from './breakdowns';
+import { hour } from '../test-helpers';
+
+let count = 0;
+
+function trade(
+  marketId: string,
+  outcomeId: string,
+  pnl: number,
+  extra: { strength?: SignalStrength; category?: string; side?: 'buy' | 'sell'; complementOf?: string } = {}
+): BacktestTrade {
+  count++;
+  return {
+    id: `trade-${count}`,
+    marketId,
+    outcomeId,
+    side: extra.side ?? 'buy',
+    entryTime: hour(0),
+    exitTime: hour(1),
+    entryPrice: 0.5,
+    exitPrice: 0.5,
+    size: 100,
+    pnl,
+    pnlPercent: pnl,
+    fees: 0,
+    slippage: 0,
+    exitReason: 'take_profit',
+    maxAdverseExcursion: 0,
+    maxFavorableExcursion: 0,
+    signal: {
+      id: `signal-${count}`,
+      strategyId: 'scripted',
+      marketId,
+      outcomeId,
+      type: extra.side ?? 'buy',
+      strength: extra.strength ?? 3,
+      confidence: 0.8,
+      reasoning: '',
+      indicators: {},
+      timestamp: hour(0),
+      metadata: extra.category ? { category: extra.category } : undefined,
+    },
+    complementOf: extra.complementOf,
+  };
+}
+
+describe('summarizeTrades', () => {
+  it('counts winners and divides gross profit by gross loss', () => {
+    const summary = summarizeTrades('all', [
+      trade('a', 'yes', 30),
+      trade('a', 'yes', -10),
+      trade('b', 'no', 0),
+    ]);
+
+    expect(summary).toEqual({
+      key: 'all',
+      trades: 3,
+      winningTrades: 1,
+      winRate: 1 / 3,
+      pnl: 20,
+      averagePnl: 20 / 3,
+      profitFactor: 3,
+    });
+  });
+
+  it('reports an infinite profit factor without losers and zeros without trades', () => {
+    expect(summarizeTrades('wins', [trade('a', 'yes', 5)]).profitFactor).toBe(Infinity);
+    expect(summarizeTrades('none', [])).toEqual({
+      key: 'none',
+      trades: 0,
+      winningTrades: 0,
+      winRate: 0,
+      pnl: 0,
+      averagePnl: 0,
+      profitFactor: 0,
+    });
+  });
+});
+
+describe('calculateTradeBreakdowns', () => {
+  const trades = [
+    trade('a', 'a-yes', 10, { strength: 4, category: 'narrative' }),
+    trade('a', 'a-no', -30, { strength: 2, side: 'sell' }),
+    trade('b', 'b-no', 50, { strength: 4, complementOf: 'b-yes' }),
+  ];
+
+  it('groups along every dimension, best total PnL first', () => {
+    const breakdowns = calculateTradeBreakdowns(trades, {
+      outcomeNames: new Map([['a-yes', 'Yes'], ['a-no', 'No'], ['b-no', 'No']]),
+      defaultCategory: 'momentum',
+    });
+    const keys = (list: Array<{ key: string; trades: number; pnl: number }>) =>
+      list.map(group => [group.key, group.trades, group.pnl]);
+
+    expect(keys(breakdowns.byMarket)).toEqual([['b', 1, 50], ['a', 2, -20]]);
+    expect(keys(breakdowns.byOutcome)).toEqual([['No', 2, 20], ['Yes', 1, 10]]);
+    expect(keys(breakdowns.byStrength)).toEqual([['4', 2, 60], ['2', 1, -30]]);
+    expect(keys(breakdowns.byCategory)).toEqual([['momentum', 2, 20], ['narrative', 1, 10]]);
+    expect(keys(breakdowns.bySide)).toEqual([['sell_complement', 1, 50], ['buy', 1, 10], ['sell', 1, -30]]);
+  });
+
+  it('falls back to outcome ids and an unknown category', () => {
+    const breakdowns = calculateTradeBreakdowns(trades);
+
+    expect(breakdowns.byOutcome.map(group => group.key)).toEqual(['b-no', 'a-yes', 'a-no']);
+    expect(breakdowns.byCategory.map(group => group.key)).toEqual(['unknown', 'narrative']);
+  });
+});
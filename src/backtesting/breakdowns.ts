@@ -0,0 +1,75 @@
+/**
+ * EdgePoly Strategies - Trade Breakdowns
+ *
+ * Slices closed trades by market, outcome, signal strength, strategy
+ * category and side to show where a strategy makes or loses money.
+ */
+
+import type {
+  BacktestTrade,
+  StrategyCategory,
+  TradeBreakdown,
+  TradeBreakdowns,
+} from '../types';
+import { groupBy } from '../utils/helpers';
+
+export interface BreakdownOptions {
+  outcomeNames?: Map<string, string>; // outcome id -> name
+  defaultCategory?: StrategyCategory; // for signals without metadata.category
+}
+
+/**
+ * Group trades along every breakdown dimension
+ */
+export function calculateTradeBreakdowns(
+  trades: BacktestTrade[],
+  options: BreakdownOptions = {}
+): TradeBreakdowns {
+  const outcomeNames = options.outcomeNames || new Map<string, string>();
+
+  return {
+    byMarket: breakdown(trades, t => t.marketId),
+    byOutcome: breakdown(trades, t => outcomeNames.get(t.outcomeId) ?? t.outcomeId),
+    byStrength: breakdown(trades, t => String(t.signal.strength)),
+    byCategory: breakdown(trades, t => {
+      const category = t.signal.metadata?.category;
+      return typeof category === 'string' ? category : options.defaultCategory ?? 'unknown';
+    }),
+    // Complement-executed sells are reported apart from plain buys and naive shorts
+    bySide: breakdown(trades, t => (t.complementOf ? 'sell_complement' : t.side)),
+  };
+}
+
+/**
+ * Aggregate statistics for one group of trades
+ */
+export function summarizeTrades(key: string, trades: BacktestTrade[]): TradeBreakdown {
+  const winners = trades.filter(t => t.pnl > 0);
+  const grossProfit = winners.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = Math.abs(
+    trades.filter(t => t.pnl < 0).reduce((sum, t) => sum + t.pnl, 0)
+  );
+  const pnl = trades.reduce((sum, t) => sum + t.pnl, 0);
+
+  return {
+    key,
+    trades: trades.length,
+    winningTrades: winners.length,
+    winRate: trades.length > 0 ? winners.length / trades.length : 0,
+    pnl,
+    averagePnl: trades.length > 0 ? pnl / trades.length : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+  };
+}
+
+/**
+ * Groups ordered by total PnL, best first
+ */
+function breakdown(
+  trades: BacktestTrade[],
+  keyOf: (trade: BacktestTrade) => string
+): TradeBreakdown[] {
+  return Object.entries(groupBy(trades, keyOf))
+    .map(([key, group]) => summarizeTrades(key, group))
+    .sort((a, b) => b.pnl - a.pnl);
+}
@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { MarketSnapshot } from '../types';
+import { CachingMarketDataProvider, resampleSnapshots } from './caching';
+import { MemoryMarketDataProvider, binaryMarket, hour } from '../test-helpers';
+
+const MINUTE = 60 * 1000;
+
+// Yes at 0.4, 0.5, 0.6 and 0.7 at 00:00, 00:30, 01:00 and 02:30
+function irregular(): MarketSnapshot[] {
+  return binaryMarket('a', [0.4, 0.5, 0.6, 0.7]).map((snapshot, i) => ({
+    ...snapshot,
+    timestamp: new Date(hour(0).getTime() + [0, 30, 60, 150][i] * MINUTE),
+  }));
+}
+
+class CountingProvider extends MemoryMarketDataProvider {
+  calls = 0;
+  version = 'v1';
+
+  async getHistoricalData(marketId: string, startDate: Date, endDate: Date): Promise<MarketSnapshot[]> {
+    this.calls++;
+    return super.getHistoricalData(marketId, startDate, endDate);
+  }
+
+  async cacheKey(): Promise<string> {
+    return this.version;
+  }
+}
+
+describe('resampleSnapshots', () => {
+  it('carries the latest snapshot at or before each bar, never a later one', () => {
+    const bars = resampleSnapshots(irregular(), '1h');
+
+    expect(bars.map(bar => [bar.timestamp, bar.outcomes[0].price, bar.outcomes[0].previousPrice])).toEqual([
+      [hour(0), 0.4, 0.4],
+      [hour(1), 0.6, 0.4],
+      [hour(2), 0.6, 0.6],
+      [hour(3), 0.7, 0.6],
+    ]);
+  });
+
+  it('skips bars without a new snapshot unless forward filling, and stops at the end date', () => {
+    expect(resampleSnapshots(irregular(), '1h', { forwardFill: false }).map(bar => bar.timestamp))
+      .toEqual([hour(0), hour(1), hour(3)]);
+    expect(resampleSnapshots(irregular(), '1h', { endDate: hour(2) }).map(bar => bar.timestamp))
+      .toEqual([hour(0), hour(1), hour(2)]);
+  });
+});
+
+describe('CachingMarketDataProvider', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'edgepoly-cache-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('serves ranges covered by a cached range from memory', async () => {
+    const source = new CountingProvider({ a: binaryMarket('a', [0.4, 0.5, 0.6, 0.7]) });
+    const provider = new CachingMarketDataProvider(source);
+
+    expect(await provider.getHistoricalData('a', hour(0), hour(3))).toHaveLength(4);
+    expect((await provider.getHistoricalData('a', hour(1), hour(2))).map(s => s.timestamp))
+      .toEqual([hour(1), hour(2)]);
+    expect(source.calls).toBe(1);
+
+    provider.clear('a');
+    await provider.getHistoricalData('a', hour(1), hour(2));
+    expect(source.calls).toBe(2);
+  });
+
+  it('keys disk entries on the namespace and the source version', async () => {
+    const cacheDir = join(dir, 'keys');
+    const source = new CountingProvider({ a: binaryMarket('a', [0.4, 0.5]) });
+    const load = (namespace: string) =>
+      new CachingMarketDataProvider(source, { cache: 'disk', cacheDir, namespace })
+        .getHistoricalData('a', hour(0), hour(1));
+
+    const first = await load('prices');
+    expect(await load('prices')).toEqual(first);
+    expect(source.calls).toBe(1);
+
+    await load('other');
+    expect(source.calls).toBe(2);
+
+    source.version = 'v2';
+    await load('prices');
+    expect(source.calls).toBe(3);
+    expect(await readdir(cacheDir)).toHaveLength(3);
+  });
+
+  it('requires a way to name the source for disk caching', () => {
+    const source = new MemoryMarketDataProvider({});
+
+    expect(() => new CachingMarketDataProvider(source, { cache: 'disk' }))
+      .toThrow("cacheDir is required when cache is 'disk'");
+    expect(() => new CachingMarketDataProvider(source, { cache: 'disk', cacheDir: dir }))
+      .toThrow("namespace is required when cache is 'disk' and the provider has no cacheKey()");
+  });
+
+  it('exposes a cache key that tells resampled views of a source apart', async () => {
+    const source = new CountingProvider({});
+    const raw = new CachingMarketDataProvider(source);
+    const hourly = new CachingMarketDataProvider(source, { interval: '1h' });
+    const sparse = new CachingMarketDataProvider(source, { interval: '1h', forwardFill: false });
+
+    const keys = await Promise.all([raw, hourly, sparse].map(provider => provider.cacheKey!()));
+    expect(new Set(keys).size).toBe(3);
+    expect(keys[0]).toContain('v1');
+    expect(new CachingMarketDataProvider(new MemoryMarketDataProvider({})).cacheKey).toBeUndefined();
+  });
+});
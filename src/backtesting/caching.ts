@@ -0,0 +1,296 @@
+/**
+ * EdgePoly Strategies - Caching Data Provider
+ *
+ * Wraps a MarketDataProvider with an in-memory or on-disk snapshot cache
+ * and optional resampling to fixed intervals.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { z } from 'zod';
+import type { MarketSnapshot, OrderBookSnapshot } from '../types';
+import type { MarketDataProvider } from './engine';
+import { marketSnapshotSchema } from './providers';
+import { parseInterval } from '../utils/helpers';
+import type { ResampleInterval } from '../utils/helpers';
+
+export interface CachingProviderOptions {
+  cache?: 'memory' | 'disk' | 'none'; // default: memory
+  cacheDir?: string; // required for disk
+  namespace?: string; // names the source in disk cache keys; required for disk unless the provider has cacheKey()
+  interval?: ResampleInterval; // resample to fixed bars, e.g. '1h', '4h', '1d'
+  forwardFill?: boolean; // carry the last snapshot into empty bars (default: true)
+}
+
+interface CacheEntry {
+  start: number;
+  end: number;
+  snapshots: Promise<MarketSnapshot[]>;
+}
+
+const cacheFileSchema = z.array(marketSnapshotSchema);
+
+export class CachingMarketDataProvider implements MarketDataProvider {
+  private provider: MarketDataProvider;
+  private mode: 'memory' | 'disk' | 'none';
+  private cacheDir?: string;
+  private namespace?: string;
+  private interval?: number;
+  private forwardFill: boolean;
+  private entries: Map<string, CacheEntry[]> = new Map();
+
+  /**
+   * The wrapped source's identity with the resampling applied to it, so
+   * outer caches keep telling sources apart. Defined when the wrapped
+   * provider has a cacheKey or a namespace is given.
+   */
+  cacheKey?: () => Promise<string>;
+
+  constructor(provider: MarketDataProvider, options: CachingProviderOptions = {}) {
+    this.provider = provider;
+    this.mode = options.cache || 'memory';
+    this.cacheDir = options.cacheDir;
+    this.namespace = options.namespace;
+    this.interval = options.interval !== undefined ? parseInterval(options.interval) : undefined;
+    this.forwardFill = options.forwardFill ?? true;
+
+    if (this.mode === 'disk' && !this.cacheDir) {
+      throw new Error("cacheDir is required when cache is 'disk'");
+    }
+    if (this.mode === 'disk' && this.namespace === undefined && !provider.cacheKey) {
+      throw new Error("namespace is required when cache is 'disk' and the provider has no cacheKey()");
+    }
+
+    if (this.namespace !== undefined || provider.cacheKey) {
+      this.cacheKey = async () => JSON.stringify([
+        await this.sourceKey(),
+        this.interval ?? null,
+        this.interval !== undefined ? this.forwardFill : null,
+      ]);
+    }
+  }
+
+  async getHistoricalData(
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<MarketSnapshot[]> {
+    const snapshots = await this.fetch(marketId, startDate, endDate);
+
+    if (this.interval === undefined) return snapshots;
+    return resampleSnapshots(snapshots, this.interval, {
+      endDate,
+      forwardFill: this.forwardFill,
+    });
+  }
+
+  /**
+   * With caching off, streams from the wrapped provider when it can stream,
+   * resampling as snapshots arrive. Cached modes hold the full range in
+   * memory, so they serve it from the cache.
+   */
+  async *streamHistoricalData(
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): AsyncGenerator<MarketSnapshot> {
+    if (this.mode !== 'none' || !this.provider.streamHistoricalData) {
+      yield* await this.getHistoricalData(marketId, startDate, endDate);
+      return;
+    }
+
+    const snapshots = this.provider.streamHistoricalData(marketId, startDate, endDate);
+    if (this.interval === undefined) {
+      yield* snapshots;
+      return;
+    }
+
+    const bars: MarketSnapshot[] = [];
+    const resampler = createResampler(this.interval, { endDate, forwardFill: this.forwardFill }, bar => {
+      bars.push(bar);
+    });
+    for await (const snapshot of snapshots) {
+      resampler.push(snapshot);
+      yield* bars.splice(0);
+    }
+    resampler.end();
+    yield* bars;
+  }
+
+  async getOrderBook(
+    marketId: string,
+    outcomeId: string,
+    timestamp: Date
+  ): Promise<OrderBookSnapshot | undefined> {
+    return this.provider.getOrderBook?.(marketId, outcomeId, timestamp);
+  }
+
+  /**
+   * Drop cached snapshots for one market, or for all markets. Disk cache
+   * files are left in place.
+   */
+  clear(marketId?: string): void {
+    if (marketId === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(marketId);
+    }
+  }
+
+  /**
+   * Raw snapshots for a range, served from any cached range that covers it
+   */
+  private async fetch(
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<MarketSnapshot[]> {
+    if (this.mode === 'none') {
+      return this.provider.getHistoricalData(marketId, startDate, endDate);
+    }
+
+    const start = startDate.getTime();
+    const end = endDate.getTime();
+    const entries = this.entries.get(marketId) || [];
+
+    let entry = entries.find(e => e.start <= start && e.end >= end);
+    if (!entry) {
+      const snapshots = this.mode === 'disk'
+        ? this.loadFromDisk(marketId, startDate, endDate)
+        : this.provider.getHistoricalData(marketId, startDate, endDate);
+
+      entry = { start, end, snapshots };
+      entries.push(entry);
+      this.entries.set(marketId, entries);
+
+      // A failed fetch should not poison the cache
+      snapshots.catch(() => {
+        this.entries.set(marketId, (this.entries.get(marketId) || []).filter(e => e !== entry));
+      });
+    }
+
+    const snapshots = await entry.snapshots;
+    if (entry.start === start && entry.end === end) return snapshots;
+
+    return snapshots.filter(snapshot => {
+      const time = snapshot.timestamp.getTime();
+      return time >= start && time <= end;
+    });
+  }
+
+  private async loadFromDisk(
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<MarketSnapshot[]> {
+    // Entries belong to one source and, via cacheKey, one version of it
+    const key = JSON.stringify([
+      ...(await this.sourceKey()),
+      marketId,
+      startDate.toISOString(),
+      endDate.toISOString(),
+    ]);
+    const path = join(this.cacheDir!, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+    try {
+      return cacheFileSchema.parse(JSON.parse(await readFile(path, 'utf8')));
+    } catch {
+      // Missing or unreadable cache file: fall through and refetch
+    }
+
+    const snapshots = await this.provider.getHistoricalData(marketId, startDate, endDate);
+    await mkdir(this.cacheDir!, { recursive: true });
+
+    // Write to a unique temporary file and rename it into place, so a crash
+    // or a concurrent writer never leaves a truncated entry behind
+    const temporary = `${path}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(temporary, JSON.stringify(snapshots));
+      await rename(temporary, path);
+    } catch (error) {
+      await rm(temporary, { force: true });
+      throw error;
+    }
+    return snapshots;
+  }
+
+  private async sourceKey(): Promise<[string | null, string | null]> {
+    return [this.namespace ?? null, (await this.provider.cacheKey?.()) ?? null];
+  }
+}
+
+/**
+ * Resample an irregular, time-ordered snapshot stream onto a fixed grid
+ * aligned to the epoch (UTC). Each bar carries the latest snapshot at or
+ * before its timestamp; with forwardFill off, bars with no new snapshot are
+ * skipped. previousPrice is rewritten to the prior bar's price so
+ * bar-to-bar changes stay consistent.
+ */
+export function resampleSnapshots(
+  snapshots: MarketSnapshot[],
+  interval: ResampleInterval,
+  options: { endDate?: Date; forwardFill?: boolean } = {}
+): MarketSnapshot[] {
+  const bars: MarketSnapshot[] = [];
+  const resampler = createResampler(parseInterval(interval), options, bar => {
+    bars.push(bar);
+  });
+
+  for (const snapshot of snapshots) resampler.push(snapshot);
+  resampler.end();
+  return bars;
+}
+
+/**
+ * Incremental resampling: push snapshots in time order and each bar is
+ * emitted once a later snapshot (or the end) settles it
+ */
+function createResampler(
+  step: number,
+  options: { endDate?: Date; forwardFill?: boolean },
+  emit: (bar: MarketSnapshot) => void
+): { push(snapshot: MarketSnapshot): void; end(): void } {
+  const forwardFill = options.forwardFill ?? true;
+  const endDate = options.endDate ? options.endDate.getTime() : Infinity;
+  const lastPrices = new Map<string, number>();
+  let latest: MarketSnapshot | undefined;
+  let fresh = false; // latest arrived after the previous bar time
+  let time = 0; // next bar time
+
+  const emitBar = () => {
+    if (forwardFill || fresh) {
+      const source = latest!;
+      emit({
+        ...source,
+        timestamp: new Date(time),
+        outcomes: source.outcomes.map(outcome => {
+          const previousPrice = lastPrices.get(outcome.id) ?? outcome.previousPrice;
+          lastPrices.set(outcome.id, outcome.price);
+          return { ...outcome, previousPrice };
+        }),
+      });
+    }
+    fresh = false;
+    time += step;
+  };
+
+  return {
+    push(snapshot) {
+      const timestamp = snapshot.timestamp.getTime();
+      if (latest) {
+        // Bars before this snapshot carry the previous one
+        while (time < timestamp && time <= endDate) emitBar();
+      } else {
+        time = Math.ceil(timestamp / step) * step;
+      }
+      latest = snapshot;
+      fresh = true;
+    },
+    end() {
+      if (!latest) return;
+      const last = Math.min(Math.ceil(latest.timestamp.getTime() / step) * step, endDate);
+      while (time <= last) emitBar();
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+
+const TSX = join(__dirname, '../../node_modules/.bin/tsx');
+const CLI = join(__dirname, 'cli.ts');
+
+const CSV = [
+  'timestamp,marketId,question,volume,volume24h,liquidity,endDate,outcomeId,outcomeName,price',
+  '2024-01-01T00:00:00Z,rain,Rain?,100,10,50,2024-02-01T00:00:00Z,yes,Yes,0.40',
+  '2024-01-01T00:00:00Z,rain,Rain?,100,10,50,2024-02-01T00:00:00Z,no,No,0.60',
+  '2024-01-02T00:00:00Z,rain,Rain?,120,10,50,2024-02-01T00:00:00Z,yes,Yes,0.50',
+  '2024-01-02T00:00:00Z,rain,Rain?,120,10,50,2024-02-01T00:00:00Z,no,No,0.50',
+  '',
+].join('\n');
+
+let dir: string;
+
+/**
+ * Run the CLI in a child process, resolving with its exit code and output
+ */
+async function cli(args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  try {
+    const { stdout, stderr } = await promisify(execFile)(TSX, [CLI, ...args], { timeout: 60_000 });
+    return { code: 0, stdout, stderr };
+  } catch (error) {
+    const failure = error as { code?: number; stdout: string; stderr: string };
+    return { code: failure.code ?? 1, stdout: failure.stdout, stderr: failure.stderr };
+  }
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'edgepoly-cli-'));
+  await writeFile(join(dir, 'markets.csv'), CSV);
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('backtest CLI', () => {
+  it('runs a strategy over a data file and writes JSON and CSV', async () => {
+    const { code, stdout } = await cli([
+      '--strategy', 'momentum-v1',
+      '--data', join(dir, 'markets.csv'),
+      '--capital', '500',
+      '-p', 'rsiPeriod=10',
+      '-p', 'label=wet',
+      '--json', join(dir, 'result.json'),
+      '--csv', join(dir, 'trades.csv'),
+    ]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('Momentum Trend Follower (momentum-v1)');
+    expect(stdout).toContain('2024-01-01 → 2024-01-02, 1 market(s), $500.00 initial capital');
+
+    const result = JSON.parse(await readFile(join(dir, 'result.json'), 'utf8'));
+    expect(result.config).toEqual({
+      strategyId: 'momentum-v1',
+      parameters: { rsiPeriod: 10, label: 'wet' },
+      startDate: '2024-01-01T00:00:00.000Z',
+      endDate: '2024-01-02T00:00:00.000Z',
+      initialCapital: 500,
+      markets: ['rain'],
+    });
+
+    const trades = await readFile(join(dir, 'trades.csv'), 'utf8');
+    expect(trades.split('\n')[0]).toMatch(/^id,marketId,outcomeId,side,complementOf,/);
+    const equity = await readFile(join(dir, 'trades.equity.csv'), 'utf8');
+    expect(equity.split('\n')[0]).toMatch(/^timestamp,equity,/);
+  });
+
+  it('exits non-zero with a message for an unknown strategy', async () => {
+    const { code, stderr } = await cli(['--strategy', 'nope', '--data', join(dir, 'markets.csv')]);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("Unknown strategy 'nope'; use --list to see available ids");
+  });
+
+  it('rejects a malformed parameter override', async () => {
+    const { code, stderr } = await cli([
+      '--strategy', 'momentum-v1', '--data', join(dir, 'markets.csv'), '-p', 'rsiPeriod',
+    ]);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("Invalid --param 'rsiPeriod', expected key=value");
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * EdgePoly Strategies - Backtest CLI
+ *
+ * Usage:
+ *   npm run backtest -- --strategy momentum-v1 --data ./data/markets.json \
+ *     --start 2024-01-01 --end 2024-12-31 --capital 10000 \
+ *     --param rsiPeriod=10 --markets market-1,market-2 --json result.json
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { BacktestEngine } from './engine';
+import { createFileProvider } from './providers';
+import { CachingMarketDataProvider } from './caching';
+import { toJSON, tradesToCSV, equityCurveToCSV } from './export';
+import { toHTMLReport, toMarkdownReport } from './report';
+import { getStrategy, getAllStrategies } from '../index';
+import type { BacktestConfig, BacktestResult, BenchmarkConfig } from '../types';
+import { formatCurrency, formatPercentage } from '../utils/helpers';
+import type { ResampleInterval } from '../utils/helpers';
+
+const USAGE = `Usage: backtest --strategy <id> --data <file> [options]
+
+Options:
+  -s, --strategy <id>      Strategy id (e.g. momentum-v1)
+  -d, --data <file>        Market snapshot history (.csv, .jsonl or .json)
+      --start <date>       Start date (default: first snapshot)
+      --end <date>         End date (default: last snapshot)
+      --capital <amount>   Initial capital (default: 10000)
+  -m, --markets <ids>      Comma-separated market ids (default: all in data file)
+  -p, --param <key=value>  Strategy parameter override, repeatable
+      --interval <bar>     Resample snapshots to fixed bars (e.g. 1h, 4h, 1d)
+      --max-positions <n>  Maximum concurrent positions
+      --benchmark <type>   buy_and_hold or equal_weight, for alpha/beta metrics
+      --risk-free <rate>   Annual risk-free rate for Sharpe and Sortino (default: 0)
+      --slippage <rate>    Flat slippage rate (default: 0.005)
+      --fees <rate>        Fee rate (default: 0.02)
+      --short-complement   Execute sells as buys of the opposite outcome
+      --json <file>        Write the full BacktestResult as JSON
+      --csv <file>         Write trades as CSV (equity curve to <file>.equity.csv)
+      --report <file>      Write a tearsheet (.html, or Markdown for .md)
+      --list               List available strategies
+  -h, --help               Show this help
+`;
+
+async function main(argv: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      strategy: { type: 'string', short: 's' },
+      data: { type: 'string', short: 'd' },
+      start: { type: 'string' },
+      end: { type: 'string' },
+      capital: { type: 'string' },
+      markets: { type: 'string', short: 'm' },
+      param: { type: 'string', short: 'p', multiple: true },
+      interval: { type: 'string' },
+      'max-positions': { type: 'string' },
+      benchmark: { type: 'string' },
+      'risk-free': { type: 'string' },
+      slippage: { type: 'string' },
+      fees: { type: 'string' },
+      'short-complement': { type: 'boolean' },
+      json: { type: 'string' },
+      csv: { type: 'string' },
+      report: { type: 'string' },
+      list: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (values.list) {
+    for (const strategy of getAllStrategies()) {
+      console.log(`${strategy.config.id.padEnd(24)} ${strategy.config.name}`);
+    }
+    return;
+  }
+
+  if (!values.strategy || !values.data) {
+    throw new Error(`--strategy and --data are required\n\n${USAGE}`);
+  }
+
+  const strategy = getStrategy(values.strategy);
+  if (!strategy) {
+    throw new Error(`Unknown strategy '${values.strategy}'; use --list to see available ids`);
+  }
+
+  const provider = createFileProvider(values.data);
+  const range = await provider.getDateRange();
+  if (!range) {
+    throw new Error(`No market snapshots found in ${values.data}`);
+  }
+
+  const config: BacktestConfig = {
+    strategyId: strategy.config.id,
+    parameters: parseParameters(values.param || []),
+    startDate: values.start ? parseDate(values.start, '--start') : range.start,
+    endDate: values.end ? parseDate(values.end, '--end') : range.end,
+    initialCapital: values.capital !== undefined ? parseNumber(values.capital, '--capital') : 10000,
+    markets: values.markets
+      ? values.markets.split(',').map(m => m.trim()).filter(Boolean)
+      : await provider.getMarketIds(),
+    maxConcurrentPositions: values['max-positions'] !== undefined
+      ? parseNumber(values['max-positions'], '--max-positions')
+      : undefined,
+    benchmark: values.benchmark ? parseBenchmark(values.benchmark) : undefined,
+    riskFreeRate: values['risk-free'] !== undefined ? parseNumber(values['risk-free'], '--risk-free') : undefined,
+  };
+
+  const dataProvider = values.interval
+    ? new CachingMarketDataProvider(provider, {
+        cache: 'none',
+        interval: values.interval as ResampleInterval,
+      })
+    : provider;
+
+  const engine = new BacktestEngine(dataProvider, {
+    slippage: values.slippage !== undefined ? parseNumber(values.slippage, '--slippage') : undefined,
+    fees: values.fees !== undefined ? parseNumber(values.fees, '--fees') : undefined,
+    shortMode: values['short-complement'] ? 'complement' : 'naive',
+  });
+
+  const result = await engine.run(strategy, config);
+
+  console.log(`\n${strategy.config.name} (${strategy.config.id})`);
+  console.log(
+    `${config.startDate.toISOString().slice(0, 10)} → ${config.endDate.toISOString().slice(0, 10)}, ` +
+    `${config.markets!.length} market(s), ${formatCurrency(config.initialCapital)} initial capital\n`
+  );
+  printSummary(result);
+
+  if (values.json) {
+    await writeFile(values.json, toJSON(result));
+    console.log(`\nWrote result to ${values.json}`);
+  }
+
+  if (values.csv) {
+    const equityPath = values.csv.replace(/(\.csv)?$/, '.equity.csv');
+    await writeFile(values.csv, tradesToCSV(result));
+    await writeFile(equityPath, equityCurveToCSV(result));
+    console.log(`\nWrote trades to ${values.csv} and equity curve to ${equityPath}`);
+  }
+
+  if (values.report) {
+    const options = { title: `${strategy.config.name} (${strategy.config.id})` };
+    await writeFile(
+      values.report,
+      /\.(md|markdown)$/i.test(values.report) ? toMarkdownReport(result, options) : toHTMLReport(result, options)
+    );
+    console.log(`\nWrote report to ${values.report}`);
+  }
+}
+
+function parseParameters(pairs: string[]): Record<string, unknown> {
+  const parameters: Record<string, unknown> = {};
+
+  for (const pair of pairs) {
+    const index = pair.indexOf('=');
+    if (index <= 0) {
+      throw new Error(`Invalid --param '${pair}', expected key=value`);
+    }
+
+    const key = pair.slice(0, index);
+    const value = pair.slice(index + 1);
+
+    if (value === 'true' || value === 'false') {
+      parameters[key] = value === 'true';
+    } else if (value.trim() !== '' && !Number.isNaN(Number(value))) {
+      parameters[key] = Number(value);
+    } else {
+      parameters[key] = value;
+    }
+  }
+
+  return parameters;
+}
+
+function parseDate(value: string, flag: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date for ${flag}: '${value}'`);
+  }
+  return date;
+}
+
+function parseNumber(value: string, flag: string): number {
+  const number = Number(value);
+  if (Number.isNaN(number)) {
+    throw new Error(`Invalid number for ${flag}: '${value}'`);
+  }
+  return number;
+}
+
+function parseBenchmark(value: string): BenchmarkConfig {
+  if (value !== 'buy_and_hold' && value !== 'equal_weight') {
+    throw new Error(`Invalid --benchmark '${value}', expected buy_and_hold or equal_weight`);
+  }
+  return { type: value };
+}
+
+function printSummary(result: BacktestResult): void {
+  const { summary, metrics } = result;
+  const rows: Array<[string, string]> = [
+    ['Total Trades', String(summary.totalTrades)],
+    ['Winning / Losing', `${summary.winningTrades} / ${summary.losingTrades}`],
+    ['Win Rate', formatPercentage(summary.winRate)],
+    ['Total PnL', formatCurrency(summary.totalPnl)],
+    ['Total Return', formatPercentage(summary.totalReturn)],
+    ['Max Drawdown', formatPercentage(summary.maxDrawdown)],
+    ['Sharpe Ratio', summary.sharpeRatio.toFixed(2)],
+    ['Sortino Ratio', summary.sortinoRatio.toFixed(2)],
+    ['Profit Factor', summary.profitFactor.toFixed(2)],
+    ['Average Win', formatCurrency(summary.averageWin)],
+    ['Average Loss', formatCurrency(summary.averageLoss)],
+    ['Largest Win', formatCurrency(summary.largestWin)],
+    ['Largest Loss', formatCurrency(summary.largestLoss)],
+    ['Avg Holding Period', `${summary.averageHoldingPeriod.toFixed(1)}h`],
+    ['Exposure', formatPercentage(summary.exposure)],
+    ['Peak Capital Used', formatPercentage(summary.peakCapitalUtilization)],
+    ['Max Leverage', `${summary.maxLeverage.toFixed(2)}x`],
+  ];
+
+  if (metrics.beta !== undefined) {
+    rows.push(
+      ['Alpha (annual)', formatPercentage(metrics.alpha ?? 0)],
+      ['Beta', metrics.beta.toFixed(2)],
+      ['Information Ratio', (metrics.informationRatio ?? 0).toFixed(2)],
+      ['Tracking Error', formatPercentage(metrics.trackingError ?? 0)],
+      ['Up / Down Capture', `${(metrics.upCapture ?? 0).toFixed(2)} / ${(metrics.downCapture ?? 0).toFixed(2)}`],
+    );
+  }
+
+  const width = Math.max(...rows.map(([label]) => label.length));
+  const valueWidth = Math.max(...rows.map(([, value]) => value.length));
+  const border = `+-${'-'.repeat(width)}-+-${'-'.repeat(valueWidth)}-+`;
+
+  console.log(border);
+  for (const [label, value] of rows) {
+    console.log(`| ${label.padEnd(width)} | ${value.padStart(valueWidth)} |`);
+  }
+  console.log(border);
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
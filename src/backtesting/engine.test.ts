@@ -0,0 +1,480 @@
+import { describe, expect, it } from 'vitest';
+import type { BacktestConfig, BacktestResult, MarketSnapshot, OrderBookSnapshot } from '../types';
+import { BacktestEngine } from './engine';
+import type { BacktestEngineOptions } from './engine';
+import { OrderBookFillModel } from './fills';
+import { sharpeRatio, sortinoRatio } from '../utils/helpers';
+import {
+  MemoryMarketDataProvider,
+  ScriptedStrategy,
+  TEST_START,
+  binaryMarket,
+  hour,
+  round,
+} from '../test-helpers';
+import type { ScriptedSignal } from '../test-helpers';
+
+interface Scenario {
+  markets: Record<string, MarketSnapshot[]>;
+  orderBooks?: Record<string, OrderBookSnapshot>;
+  script: ScriptedSignal[];
+  options?: BacktestEngineOptions;
+  config?: Partial<BacktestConfig>;
+  positionSize?: number;
+}
+
+// Frictionless by default so expected PnL can be worked out by hand
+async function backtest(scenario: Scenario): Promise<{ result: BacktestResult; strategy: ScriptedStrategy }> {
+  const strategy = new ScriptedStrategy(scenario.script, scenario.positionSize);
+  const engine = new BacktestEngine(
+    new MemoryMarketDataProvider(scenario.markets, scenario.orderBooks),
+    { fees: 0, slippage: 0, ...scenario.options }
+  );
+  const result = await engine.run(strategy, {
+    strategyId: 'scripted',
+    parameters: {},
+    startDate: TEST_START,
+    endDate: hour(24),
+    initialCapital: 1000,
+    markets: Object.keys(scenario.markets),
+    ...scenario.config,
+  });
+  return { result, strategy };
+}
+
+describe('BacktestEngine', () => {
+  describe('simulated clock', () => {
+    it('shows the strategy the time of each snapshot', async () => {
+      const { result, strategy } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.6, 0.7]) },
+        script: [{ at: 1, marketId: 'a', outcomeId: 'a-yes', type: 'buy' }],
+      });
+
+      expect(strategy.seenTimes).toEqual([hour(0), hour(1), hour(2)]);
+      expect(result.trades[0].entryTime).toEqual(hour(1));
+      expect(result.trades[0].exitTime).toEqual(hour(24));
+      expect(result.equityCurve.map(point => point.timestamp)).toEqual([hour(0), hour(1), hour(2), hour(24)]);
+    });
+  });
+
+  describe('per-outcome positions', () => {
+    it('holds each outcome of a market separately at its own price', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.6, 0.8]) },
+        script: [
+          { at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy' },
+          { at: 0, marketId: 'a', outcomeId: 'a-no', type: 'buy' },
+          { at: 1, marketId: 'a', outcomeId: 'a-yes', type: 'buy' },
+        ],
+      });
+
+      // The repeated Yes signal is skipped while the first position is open
+      expect(result.trades).toHaveLength(2);
+      const [yes, no] = result.trades;
+      expect(yes).toMatchObject({ outcomeId: 'a-yes', entryPrice: 0.5, exitPrice: 0.8, size: 200 });
+      expect(yes.pnl).toBeCloseTo(60, 10);
+      expect(no).toMatchObject({ outcomeId: 'a-no', entryPrice: 0.5, size: 200 });
+      expect(no.exitPrice).toBeCloseTo(0.2, 10);
+      expect(no.pnl).toBeCloseTo(-60, 10);
+    });
+
+    it('skips signals for outcomes the market does not have', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.6]) },
+        script: [{ at: 0, marketId: 'a', outcomeId: 'b-yes', type: 'buy' }],
+      });
+
+      expect(result.trades).toEqual([]);
+    });
+  });
+
+  describe('order book fills', () => {
+    const book: OrderBookSnapshot = {
+      marketId: 'a',
+      outcomeId: 'a-yes',
+      asks: [{ price: 0.5, size: 100 }],
+      bids: [{ price: 0.6, size: 40 }],
+      spread: 0,
+      midPrice: 0.55,
+      timestamp: TEST_START,
+    };
+
+    it('opens and closes only what the book can fill', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.6, 0.6]) },
+        orderBooks: { 'a-yes': book },
+        script: [{ at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy', takeProfit: 0.6 }],
+        options: { fillModel: new OrderBookFillModel() },
+      });
+
+      // 200 shares requested, 100 on the book; 40 can be sold per step
+      expect(result.trades.map(trade => [trade.size, trade.exitReason])).toEqual([
+        [40, 'take_profit'],
+        [40, 'take_profit'],
+        [20, 'end_of_backtest'],
+      ]);
+      expect(result.summary.totalPnl).toBeCloseTo(10, 10);
+      expect(result.equityCurve[0].cash).toBeCloseTo(950, 10);
+    });
+
+    it('skips orders the book rejects', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.6]) },
+        orderBooks: { 'a-yes': { ...book, asks: [] } },
+        script: [{ at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy' }],
+        options: { fillModel: new OrderBookFillModel() },
+      });
+
+      expect(result.trades).toEqual([]);
+      expect(result.equityCurve.every(point => point.cash === 1000)).toBe(true);
+    });
+  });
+
+  describe('resolution', () => {
+    it('redeems winning outcomes at 1 and losing ones at 0, charging the settlement fee', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.7, 0.9], 'Yes') },
+        script: [
+          { at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy' },
+          { at: 0, marketId: 'a', outcomeId: 'a-no', type: 'buy' },
+        ],
+        options: { settlementFee: 0.01 },
+      });
+
+      const [yes, no] = result.trades;
+      expect(yes).toMatchObject({ exitPrice: 1, exitReason: 'resolution', exitTime: hour(2), size: 200 });
+      expect(yes.fees).toBeCloseTo(2, 10);
+      expect(yes.pnl).toBeCloseTo(98, 10);
+      expect(no).toMatchObject({ exitPrice: 0, exitReason: 'resolution', fees: 0 });
+      expect(no.pnl).toBeCloseTo(-100, 10);
+    });
+
+    it('matches the resolution by outcome id and falls back to the last price without one', async () => {
+      const byId = binaryMarket('a', [0.5, 0.9], 'No');
+      byId[1].resolutionOutcome = 'a-no';
+      const unknown = binaryMarket('b', [0.5, 0.9], 'Yes');
+      unknown[1].resolutionOutcome = undefined;
+
+      const { result } = await backtest({
+        markets: { a: byId, b: unknown },
+        script: [
+          { at: 0, marketId: 'a', outcomeId: 'a-no', type: 'buy' },
+          { at: 0, marketId: 'b', outcomeId: 'b-yes', type: 'buy' },
+        ],
+      });
+
+      expect(result.trades.map(trade => [trade.outcomeId, trade.exitPrice])).toEqual([
+        ['a-no', 1],
+        ['b-yes', 0.9],
+      ]);
+    });
+
+    it('does not open positions in resolved markets', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.9], 'Yes') },
+        script: [{ at: 1, marketId: 'a', outcomeId: 'a-yes', type: 'buy' }],
+      });
+
+      expect(result.trades).toEqual([]);
+    });
+  });
+
+  describe('exit reasons and trade audit', () => {
+    it('records fees, slippage and excursions of a stopped out trade', async () => {
+      const { result, strategy } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.4, 0.6, 0.3, 0.5]) },
+        script: [{ at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy', stopLoss: 0.35 }],
+        options: { fees: 0.02, slippage: 0.01 },
+      });
+
+      // 200 shares bought at 0.505, sold at 0.297
+      const [trade] = result.trades;
+      expect(trade).toMatchObject({ exitReason: 'stop_loss', exitTime: hour(3), size: 200 });
+      expect(trade.signal).toMatchObject({ id: 'signal-0-0', stopLoss: 0.35 });
+      expect(trade.entryPrice).toBeCloseTo(0.505, 12);
+      expect(trade.exitPrice).toBeCloseTo(0.297, 12);
+      expect(trade.fees).toBeCloseTo(2.02 + 1.188, 10);
+      expect(trade.slippage).toBeCloseTo(1.6, 10);
+      expect(trade.pnl).toBeCloseTo(-41.6 - 3.208, 10);
+      expect(trade.maxAdverseExcursion).toBeCloseTo((0.505 - 0.3) / 0.505 * 100, 10);
+      expect(trade.maxFavorableExcursion).toBeCloseTo((0.6 - 0.505) / 0.505 * 100, 10);
+      expect(strategy.results.map(({ result }) => result)).toEqual([{
+        signalId: 'signal-0-0',
+        executed: true,
+        entryPrice: trade.entryPrice,
+        exitPrice: trade.exitPrice,
+        pnl: trade.pnl,
+        pnlPercent: trade.pnlPercent,
+        holdingPeriod: 3,
+        outcome: 'loss',
+      }]);
+    });
+
+    it('takes profit and closes expired signals', async () => {
+      const { result } = await backtest({
+        markets: {
+          a: binaryMarket('a', [0.5, 0.55, 0.6, 0.7]),
+          b: binaryMarket('b', [0.5, 0.5, 0.5, 0.5]),
+        },
+        script: [
+          { at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy', takeProfit: 0.6 },
+          { at: 0, marketId: 'b', outcomeId: 'b-yes', type: 'buy', expiresAt: hour(1) },
+        ],
+      });
+
+      expect(result.trades.map(trade => [trade.marketId, trade.exitReason, trade.exitTime])).toEqual([
+        ['a', 'take_profit', hour(2)],
+        ['b', 'expired', hour(2)],
+      ]);
+    });
+  });
+
+  describe('mark-to-market equity', () => {
+    it('revalues open positions at every step net of entry fees', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.6, 0.4]) },
+        script: [{ at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy' }],
+        options: { fees: 0.02 },
+      });
+
+      // 200 shares at 0.5 with 2 in entry fees, sold at 0.4 with 1.6 in exit fees
+      expect(round(result.equityCurve)).toEqual(round([
+        {
+          timestamp: hour(0), equity: 998, realizedEquity: 1000, unrealizedPnl: -2,
+          cash: 898, grossExposure: 100, drawdown: 2, drawdownPercent: 0.002,
+        },
+        {
+          timestamp: hour(1), equity: 1018, realizedEquity: 1000, unrealizedPnl: 18,
+          cash: 898, grossExposure: 120, drawdown: 0, drawdownPercent: 0,
+        },
+        {
+          timestamp: hour(2), equity: 978, realizedEquity: 1000, unrealizedPnl: -22,
+          cash: 898, grossExposure: 80, drawdown: 40, drawdownPercent: 40 / 1018,
+        },
+        {
+          timestamp: hour(24), equity: 976.4, realizedEquity: 976.4, unrealizedPnl: 0,
+          cash: 976.4, grossExposure: 0, drawdown: 41.6, drawdownPercent: 41.6 / 1018,
+        },
+      ]));
+      expect(result.summary.maxDrawdown).toBeCloseTo(41.6 / 1018, 10);
+    });
+  });
+
+  describe('cash ledger', () => {
+    it('sizes positions off the cash left and stops buying when it runs out', async () => {
+      const { result } = await backtest({
+        markets: {
+          a: binaryMarket('a', [0.5, 0.5]),
+          b: binaryMarket('b', [0.5, 0.5]),
+          c: binaryMarket('c', [0.5, 0.5]),
+        },
+        script: ['a', 'b', 'c'].map(id => ({ at: 0, marketId: id, outcomeId: `${id}-yes`, type: 'buy' as const })),
+        positionSize: 600,
+      });
+
+      expect(result.trades.map(trade => [trade.marketId, trade.size])).toEqual([
+        ['a', 1200],
+        ['b', 800],
+      ]);
+      expect(result.equityCurve[0]).toMatchObject({ cash: 0, equity: 1000 });
+      expect(result.equityCurve[result.equityCurve.length - 1].cash).toBe(1000);
+    });
+
+    it('skips orders whose fees the cash cannot cover', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.5]) },
+        script: [{ at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy' }],
+        options: { fees: 0.02 },
+        positionSize: 1000,
+      });
+
+      expect(result.trades).toEqual([]);
+      expect(result.equityCurve[0].cash).toBe(1000);
+    });
+
+    it('reserves the maximum binary loss for naive shorts', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.7, 0.6]) },
+        script: [{ at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'sell' }],
+      });
+
+      // 1000/7 shares shorted at 0.7 lock up 0.3 each
+      expect(result.equityCurve[0].cash).toBeCloseTo(1000 - 300 / 7, 10);
+      expect(result.trades[0].pnl).toBeCloseTo(100 / 7, 10);
+      expect(result.equityCurve[result.equityCurve.length - 1].cash).toBeCloseTo(1000 + 100 / 7, 10);
+    });
+
+    it('caps the number of open positions', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.5]), b: binaryMarket('b', [0.5, 0.5]) },
+        script: [
+          { at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy' },
+          { at: 0, marketId: 'b', outcomeId: 'b-yes', type: 'buy' },
+        ],
+        config: { maxConcurrentPositions: 1 },
+      });
+
+      expect(result.trades.map(trade => trade.marketId)).toEqual(['a']);
+    });
+  });
+
+  describe('complement shorting', () => {
+    it('buys the other outcome with mirrored price levels', async () => {
+      const { result, strategy } = await backtest({
+        markets: { a: binaryMarket('a', [0.7, 0.75, 0.85]) },
+        script: [{
+          at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'sell',
+          entryPrice: 0.7, stopLoss: 0.8, takeProfit: 0.4,
+        }],
+        options: { shortMode: 'complement' },
+      });
+
+      // No is bought at 0.3 and stopped out below 0.2
+      const [trade] = result.trades;
+      expect(trade).toMatchObject({
+        outcomeId: 'a-no',
+        side: 'buy',
+        complementOf: 'a-yes',
+        exitReason: 'stop_loss',
+        exitTime: hour(2),
+      });
+      expect(trade.signal.stopLoss).toBeCloseTo(0.2, 12);
+      expect(trade.signal.takeProfit).toBeCloseTo(0.6, 12);
+      expect(trade.entryPrice).toBeCloseTo(0.3, 12);
+      expect(trade.exitPrice).toBeCloseTo(0.15, 12);
+      expect(trade.size).toBeCloseTo(1000 / 3, 10);
+      expect(trade.pnl).toBeCloseTo(-50, 10);
+      expect(result.equityCurve[0].cash).toBeCloseTo(900, 10);
+
+      // The strategy hears back about the outcome it signalled
+      const [{ signal, result: reported }] = strategy.results;
+      expect(signal).toMatchObject({ outcomeId: 'a-yes', type: 'sell' });
+      expect(reported.entryPrice).toBeCloseTo(0.7, 12);
+      expect(reported.exitPrice).toBeCloseTo(0.85, 12);
+    });
+
+    it('skips sells on markets without exactly two outcomes', async () => {
+      const market = binaryMarket('a', [0.5, 0.5]).map(snapshot => ({
+        ...snapshot,
+        outcomes: [...snapshot.outcomes, { ...snapshot.outcomes[1], id: 'a-maybe', name: 'Maybe' }],
+      }));
+
+      const { result } = await backtest({
+        markets: { a: market },
+        script: [{ at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'sell' }],
+        options: { shortMode: 'complement' },
+      });
+
+      expect(result.trades).toEqual([]);
+    });
+  });
+
+  describe('exit rules', () => {
+    it('trails the stop behind the best price and arms break-even stops', async () => {
+      const { result } = await backtest({
+        markets: {
+          a: binaryMarket('a', [0.5, 0.6, 0.7, 0.65, 0.59]),
+          b: binaryMarket('b', [0.5, 0.62, 0.505, 0.6, 0.6]),
+          c: binaryMarket('c', [0.5, 0.4, 0.45, 0.45, 0.45]),
+        },
+        script: [
+          { at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy',
+            exitRules: { trailingStop: { type: 'absolute', distance: 0.1 } } },
+          { at: 0, marketId: 'b', outcomeId: 'b-yes', type: 'buy',
+            exitRules: { breakEven: { trigger: 0.1, offset: 0.01 } } },
+          { at: 0, marketId: 'c', outcomeId: 'c-yes', type: 'sell',
+            exitRules: { trailingStop: { type: 'percent', percent: 10 } } },
+        ],
+      });
+
+      expect(result.trades.map(trade => [trade.marketId, trade.exitReason, trade.exitTime])).toEqual([
+        ['b', 'break_even', hour(2)],
+        ['c', 'trailing_stop', hour(2)],
+        ['a', 'trailing_stop', hour(4)],
+      ]);
+      // Stops trigger on the first price through them, not at the stop itself
+      expect(result.trades[2].pnl).toBeCloseTo(0.09 * 200, 10);
+      expect(result.trades[0].pnl).toBeCloseTo(0.005 * 200, 10);
+      expect(result.trades[1].pnl).toBeCloseTo(0.05 * 200, 10);
+    });
+
+    it('closes positions held too long', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.5, 0.5, 0.5]) },
+        script: [{ at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy', exitRules: { maxHoldingHours: 2 } }],
+      });
+
+      expect(result.trades.map(trade => [trade.exitReason, trade.exitTime])).toEqual([['time_stop', hour(2)]]);
+    });
+
+    it('scales out at each take profit level', async () => {
+      const { result } = await backtest({
+        markets: { a: binaryMarket('a', [0.5, 0.6, 0.65, 0.7, 0.7]) },
+        script: [{
+          at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy',
+          exitRules: { takeProfitLevels: [{ price: 0.6, fraction: 0.5 }, { price: 0.7, fraction: 0.5 }] },
+        }],
+      });
+
+      expect(result.trades.map(trade => [trade.size, trade.exitReason, trade.exitTime])).toEqual([
+        [100, 'take_profit', hour(1)],
+        [100, 'take_profit', hour(3)],
+      ]);
+      expect(result.summary.totalPnl).toBeCloseTo(30, 10);
+      expect(result.equityCurve[result.equityCurve.length - 1].cash).toBeCloseTo(1030, 10);
+    });
+  });
+
+  describe('monthly returns', () => {
+    it('counts the trades closed in each month', async () => {
+      const days = [0, 19, 35];
+      const at = (snapshots: MarketSnapshot[]) =>
+        snapshots.map((snapshot, i) => ({ ...snapshot, timestamp: hour(days[i] * 24) }));
+
+      const { result } = await backtest({
+        markets: {
+          a: at(binaryMarket('a', [0.5, 0.6, 0.6])),
+          b: at(binaryMarket('b', [0.5, 0.5, 0.4])),
+        },
+        script: [
+          { at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy', takeProfit: 0.6 },
+          { at: 0, marketId: 'b', outcomeId: 'b-yes', type: 'buy', stopLoss: 0.45 },
+        ],
+        config: { endDate: hour(40 * 24) },
+      });
+
+      expect(round(result.monthlyReturns)).toEqual([
+        { year: 2024, month: 0, return: 0.02, trades: 1, winRate: 1, pnl: 20 },
+        { year: 2024, month: 1, return: 0, trades: 1, winRate: 0, pnl: -20 },
+      ]);
+    });
+  });
+
+  describe('annualization', () => {
+    const scenario: Scenario = {
+      markets: { a: binaryMarket('a', [0.5, 0.55, 0.5, 0.6, 0.65]) },
+      script: [{ at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy' }],
+    };
+
+    function periodReturns(result: BacktestResult): number[] {
+      const equity = result.equityCurve.map(point => point.equity);
+      return equity.slice(1).map((value, i) => (value - equity[i]) / equity[i]);
+    }
+
+    it('infers periods per year from the snapshot spacing', async () => {
+      const { result } = await backtest(scenario);
+
+      expect(result.metrics.periodsPerYear).toBeCloseTo(8760, 8);
+      expect(result.metrics.sharpeRatio).toBeCloseTo(sharpeRatio(periodReturns(result), 0, 8760), 10);
+    });
+
+    it('uses the configured periods per year and risk-free rate', async () => {
+      const { result } = await backtest({ ...scenario, config: { periodsPerYear: 365, riskFreeRate: 0.05 } });
+      const riskFree = Math.pow(1.05, 1 / 365) - 1;
+
+      expect(result.metrics.periodsPerYear).toBe(365);
+      expect(result.metrics.sharpeRatio).toBeCloseTo(sharpeRatio(periodReturns(result), riskFree, 365), 10);
+      expect(result.summary.sortinoRatio).toBeCloseTo(sortinoRatio(periodReturns(result), riskFree, 365), 10);
+    });
+  });
+});
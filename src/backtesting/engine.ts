@@ -10,14 +10,48 @@ import type {
   BacktestResult,
   BacktestSummary,
   BacktestTrade,
+  TradeExitReason,
   EquityPoint,
   DrawdownPeriod,
   MonthlyReturn,
   PerformanceMetrics,
   MarketSnapshot,
+  MarketId,
   Signal,
+  OrderBookSnapshot,
+  BenchmarkPoint,
+  StrategyCategory,
 } from '../types';
-import { generateId, maxDrawdown, sharpeRatio, sortinoRatio, cagr } from '../utils/helpers';
+import {
+  generateId,
+  groupBy,
+  maxDrawdown,
+  sharpeRatio,
+  sortinoRatio,
+  cagr,
+  inferPeriodsPerYear,
+  toPeriodicRate,
+  parseInterval,
+} from '../utils/helpers';
+import { SimulatedClock, systemClock } from '../utils/clock';
+import { FlatSlippageFillModel } from './fills';
+import type { FillModel, FillResult } from './fills';
+import { BenchmarkTracker, calculateBenchmarkMetrics } from './benchmark';
+import { mergeSnapshotStreams, streamSnapshots } from './stream';
+import { calculateTradeBreakdowns, summarizeTrades } from './breakdowns';
+import {
+  calculateAllocationWeights,
+  combineEquityCurves,
+  normalizeWeights,
+  planRebalance,
+  timeWeightedCurve,
+} from './portfolio';
+import type {
+  AllocationConfig,
+  AllocationSnapshot,
+  PortfolioBacktestResult,
+  PortfolioSleeve,
+} from './portfolio';
 
 export interface MarketDataProvider {
   getHistoricalData(
@@ -25,44 +59,335 @@ export interface MarketDataProvider {
     startDate: Date,
     endDate: Date
   ): Promise<MarketSnapshot[]>;
+
+  /**
+   * Snapshots in ascending time order, produced without loading the whole
+   * range. The engine falls back to getHistoricalData when absent.
+   */
+  streamHistoricalData?(
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): AsyncIterable<MarketSnapshot>;
+
+  /**
+   * Identity and version of the underlying data, such as a file path and
+   * modification time. Disk caches key on it so different or updated
+   * sources never share entries.
+   */
+  cacheKey?(): Promise<string>;
+
+  /**
+   * Historical order book for an outcome as of the given time, if available
+   */
+  getOrderBook?(
+    marketId: string,
+    outcomeId: string,
+    timestamp: Date
+  ): Promise<OrderBookSnapshot | undefined>;
+}
+
+export interface BacktestEngineOptions {
+  slippage?: number;
+  fees?: number;
+  settlementFee?: number;
+  fillModel?: FillModel;
+  /**
+   * How sell signals are executed. 'naive' (default) shorts the outcome
+   * symmetrically; 'complement' buys the opposite outcome of a binary
+   * market instead, since outcome tokens cannot be borrowed. Sell signals on
+   * markets without exactly two outcomes are skipped in complement mode.
+   */
+  shortMode?: 'naive' | 'complement';
+}
+
+interface OpenPosition {
+  marketId: MarketId;
+  outcomeId: string;
+  side: 'buy' | 'sell';
+  entryPrice: number;
+  entryTime: Date;
+  size: number;
+  costBasis: number; // capital reserved while open
+  entryFees: number;
+  entrySlippage: number;
+  lastPrice: number; // latest mark
+  lowestPrice: number; // observed since entry, for excursion tracking
+  highestPrice: number;
+  signal: Signal;
+  originalSignal: Signal; // as issued by the strategy, before complement conversion
+  initialSize: number; // filled at entry, before any scale-outs
+  stopPrice?: number; // active stop, tightened by trailing and break-even rules
+  stopReason: TradeExitReason; // rule that last set stopPrice
 }
 
+interface ExitDecision {
+  reason: TradeExitReason;
+  size: number; // shares to close; less than the position for scale-outs
+}
+
+// A strategy with its own capital, positions and results
+interface Sleeve {
+  strategy: IStrategy;
+  positions: Map<string, OpenPosition>;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  cash: number;
+  realizedEquity: number;
+  peakEquity: number;
+}
+
+interface SimulationResult {
+  outcomeNames: Map<string, string>; // outcome id -> name
+  benchmarkCurve?: BenchmarkPoint[];
+}
+
+// Tolerance for comparing share counts after repeated partial closes
+const SIZE_EPSILON = 1e-9;
+
 export class BacktestEngine {
   private dataProvider: MarketDataProvider;
   private slippage: number;
   private fees: number;
+  private settlementFee: number;
+  private flatFillModel: FillModel;
+  private fillModel: FillModel;
+  private shortMode: 'naive' | 'complement';
 
   constructor(
     dataProvider: MarketDataProvider,
-    options: { slippage?: number; fees?: number } = {}
+    options: BacktestEngineOptions = {}
   ) {
     this.dataProvider = dataProvider;
-    this.slippage = options.slippage || 0.005; // 0.5% default
-    this.fees = options.fees || 0.02; // 2% default fees
+    this.slippage = options.slippage ?? 0.005; // 0.5% default
+    this.fees = options.fees ?? 0.02; // 2% default fees
+    this.settlementFee = options.settlementFee ?? 0; // fraction of redemption payout
+    this.flatFillModel = new FlatSlippageFillModel(this.slippage);
+    this.fillModel = options.fillModel || this.flatFillModel;
+    this.shortMode = options.shortMode || 'naive';
   }
 
   async run(
     strategy: IStrategy,
     config: BacktestConfig
   ): Promise<BacktestResult> {
-    // Initialize strategy
-    await strategy.initialize(config.parameters);
+    // Drive strategy time from the simulation rather than the wall clock
+    const clock = new SimulatedClock(config.startDate);
+    strategy.setClock?.(clock);
+
+    const sleeve = this.createSleeve(strategy, config.initialCapital);
+    let simulation: SimulationResult;
+    try {
+      // Initialize strategy
+      await strategy.initialize(config.parameters);
+
+      // Run simulation over the merged market data stream
+      simulation = await this.simulate(
+        [sleeve],
+        mergeSnapshotStreams(this.openStreams(config)),
+        config,
+        clock
+      );
+    } finally {
+      strategy.setClock?.(systemClock);
+    }
 
-    // Fetch historical data
-    const marketData = await this.fetchMarketData(config);
+    return this.buildResult(
+      config,
+      sleeve.trades,
+      sleeve.equityCurve,
+      simulation.outcomeNames,
+      strategy.config.category,
+      simulation.benchmarkCurve
+    );
+  }
 
-    // Run simulation
-    const { trades, equityCurve } = await this.simulate(
-      strategy,
-      marketData,
-      config
+  /**
+   * Backtest several strategies at once against one capital pool. Each
+   * strategy trades its own sleeve of the capital; at every rebalance free
+   * cash is moved between sleeves towards the allocation rule's weights.
+   */
+  async runPortfolio(
+    sleeves: PortfolioSleeve[],
+    config: BacktestConfig,
+    allocation: AllocationConfig = {}
+  ): Promise<PortfolioBacktestResult> {
+    if (sleeves.length === 0) throw new Error('A portfolio needs at least one sleeve');
+
+    const names = sleeves.map(sleeve => sleeve.name || sleeve.strategy.config.id);
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate) throw new Error(`Duplicate sleeve name '${duplicate}'`);
+    if (new Set(sleeves.map(sleeve => sleeve.strategy)).size !== sleeves.length) {
+      throw new Error('Each sleeve needs its own strategy instance');
+    }
+    if (sleeves.some(sleeve => sleeve.weight !== undefined && !(sleeve.weight > 0))) {
+      throw new Error('Sleeve weights must be positive');
+    }
+
+    const method = allocation.method || 'fixed';
+    const lookback = allocation.lookbackPeriods || 30;
+    const interval = allocation.rebalanceInterval !== undefined
+      ? parseInterval(allocation.rebalanceInterval)
+      : undefined;
+    const baseWeights = normalizeWeights(sleeves.map(sleeve => sleeve.weight ?? 1));
+    // With no returns yet every method starts from the base weights, floored at minWeight
+    const initialWeights = calculateAllocationWeights(
+      method,
+      sleeves.map(() => []),
+      baseWeights,
+      allocation.minWeight
+    );
+    const capital = initialWeights.map(weight => weight * config.initialCapital);
+    const toRecord = (weights: number[]) =>
+      Object.fromEntries(names.map((name, i) => [name, weights[i]]));
+
+    const states = sleeves.map((sleeve, i) => this.createSleeve(sleeve.strategy, capital[i]));
+    const allocations: AllocationSnapshot[] = [
+      { timestamp: config.startDate, weights: toRecord(initialWeights) },
+    ];
+
+    // Time-weighted NAV index per sleeve, so transfers do not count as
+    // returns; periodStart is each sleeve's equity after the last transfer
+    const navs: number[][] = states.map(() => []);
+    const nav = states.map(() => 1);
+    const periodStart = [...capital];
+    let nextRebalance: number | undefined;
+
+    const rebalance = (date: Date, final = false) => {
+      const equities = states.map(state => state.equityCurve[state.equityCurve.length - 1].equity);
+      equities.forEach((equity, i) => {
+        if (periodStart[i] > 0) nav[i] *= equity / periodStart[i];
+        periodStart[i] = equity;
+        navs[i].push(nav[i]);
+      });
+      if (interval === undefined || final) return;
+
+      if (nextRebalance === undefined) {
+        nextRebalance = date.getTime() + interval;
+        return;
+      }
+      if (date.getTime() < nextRebalance) return;
+      nextRebalance = date.getTime() + interval;
+
+      const returns = navs.map(series => {
+        const recent = series.slice(-(lookback + 1));
+        return recent.slice(1).map((value, j) => value / recent[j] - 1);
+      });
+      const weights = calculateAllocationWeights(method, returns, baseWeights, allocation.minWeight);
+      const transfers = planRebalance(equities, states.map(state => state.cash), weights);
+
+      transfers.forEach((amount, i) => {
+        states[i].cash += amount;
+        states[i].realizedEquity += amount;
+        states[i].peakEquity += amount;
+        periodStart[i] += amount;
+      });
+      allocations.push({ timestamp: date, weights: toRecord(weights) });
+    };
+
+    // Drive strategy time from the simulation rather than the wall clock
+    const clock = new SimulatedClock(config.startDate);
+    sleeves.forEach(sleeve => sleeve.strategy.setClock?.(clock));
+
+    let simulation: SimulationResult;
+    try {
+      for (const sleeve of sleeves) {
+        await sleeve.strategy.initialize({ ...config.parameters, ...sleeve.parameters });
+      }
+
+      simulation = await this.simulate(
+        states,
+        mergeSnapshotStreams(this.openStreams(config)),
+        config,
+        clock,
+        rebalance
+      );
+    } finally {
+      sleeves.forEach(sleeve => sleeve.strategy.setClock?.(systemClock));
+    }
+
+    // Tag trades with their sleeve so combined breakdowns can tell them apart
+    const sleeveTrades = states.map((state, i) => state.trades.map(trade => ({
+      ...trade,
+      signal: {
+        ...trade.signal,
+        metadata: {
+          category: sleeves[i].strategy.config.category,
+          sleeve: names[i],
+          ...trade.signal.metadata,
+        },
+      },
+    })));
+
+    const results = states.map((state, i) => {
+      const sleeveConfig: BacktestConfig = {
+        ...config,
+        strategyId: sleeves[i].strategy.config.id,
+        initialCapital: capital[i],
+        parameters: { ...config.parameters, ...sleeves[i].parameters },
+      };
+      const benchmarkCurve = simulation.benchmarkCurve?.map(point => ({
+        timestamp: point.timestamp,
+        equity: point.equity * initialWeights[i],
+      }));
+      const result = this.buildResult(
+        sleeveConfig,
+        sleeveTrades[i],
+        timeWeightedCurve(state.equityCurve, navs[i], capital[i]),
+        simulation.outcomeNames,
+        sleeves[i].strategy.config.category,
+        benchmarkCurve
+      );
+      // Trade PnL includes gains on capital moved in at rebalances, so the
+      // sleeve's return is taken from its time-weighted NAV instead
+      result.summary.totalReturn = (navs[i][navs[i].length - 1] ?? 1) - 1;
+
+      return { name: names[i], strategyId: sleeves[i].strategy.config.id, result };
+    });
+
+    const combinedTrades = sleeveTrades
+      .flat()
+      .sort((a, b) => (a.exitTime?.getTime() ?? 0) - (b.exitTime?.getTime() ?? 0));
+    const combined = this.buildResult(
+      config,
+      combinedTrades,
+      combineEquityCurves(states.map(state => state.equityCurve), config.initialCapital),
+      simulation.outcomeNames,
+      undefined,
+      simulation.benchmarkCurve
     );
 
+    return { combined, sleeves: results, allocations };
+  }
+
+  /**
+   * Summary, metrics, drawdowns and breakdowns of a simulated run
+   */
+  private buildResult(
+    config: BacktestConfig,
+    trades: BacktestTrade[],
+    equityCurve: EquityPoint[],
+    outcomeNames: Map<string, string>,
+    defaultCategory?: StrategyCategory,
+    benchmarkCurve?: BenchmarkPoint[]
+  ): BacktestResult {
     // Calculate metrics
-    const summary = this.calculateSummary(trades, equityCurve, config);
+    const periodsPerYear = config.periodsPerYear ??
+      inferPeriodsPerYear(equityCurve.map(e => e.timestamp));
+    const summary = this.calculateSummary(trades, equityCurve, config, periodsPerYear);
     const drawdowns = this.calculateDrawdowns(equityCurve);
-    const monthlyReturns = this.calculateMonthlyReturns(equityCurve);
-    const metrics = this.calculateMetrics(trades, equityCurve, config);
+    const monthlyReturns = this.calculateMonthlyReturns(equityCurve, trades);
+    const breakdowns = calculateTradeBreakdowns(trades, {
+      outcomeNames,
+      defaultCategory,
+    });
+    const metrics = this.calculateMetrics(
+      trades,
+      equityCurve,
+      config,
+      periodsPerYear,
+      benchmarkCurve
+    );
 
     return {
       config,
@@ -72,237 +397,586 @@ export class BacktestEngine {
       drawdowns,
       monthlyReturns,
       metrics,
+      breakdowns,
+      benchmarkCurve,
     };
   }
 
-  private async fetchMarketData(
-    config: BacktestConfig
-  ): Promise<Map<string, MarketSnapshot[]>> {
-    const marketData = new Map<string, MarketSnapshot[]>();
-
-    const marketIds = config.markets || [];
-
-    await Promise.all(
-      marketIds.map(async (marketId) => {
-        const data = await this.dataProvider.getHistoricalData(
-          marketId,
-          config.startDate,
-          config.endDate
-        );
-        marketData.set(marketId, data);
-      })
+  /**
+   * One time-ordered snapshot stream per market, streamed from the provider
+   * when it supports it
+   */
+  private openStreams(config: BacktestConfig): AsyncIterable<MarketSnapshot>[] {
+    const provider = this.dataProvider;
+
+    return (config.markets || []).map(marketId =>
+      provider.streamHistoricalData
+        ? provider.streamHistoricalData(marketId, config.startDate, config.endDate)
+        : streamSnapshots(provider.getHistoricalData(marketId, config.startDate, config.endDate))
     );
-
-    return marketData;
   }
 
+  /**
+   * Process the market one tick at a time for every sleeve. Only open
+   * positions, the latest snapshot of each market and the results are kept
+   * in memory. afterTick runs once each tick has been recorded, and once
+   * more with final set for the point recorded after closing out positions.
+   */
   private async simulate(
-    strategy: IStrategy,
-    marketData: Map<string, MarketSnapshot[]>,
-    config: BacktestConfig
-  ): Promise<{ trades: BacktestTrade[]; equityCurve: EquityPoint[] }> {
-    const trades: BacktestTrade[] = [];
-    const equityCurve: EquityPoint[] = [];
-    const positions: Map<string, { 
-      side: 'buy' | 'sell';
-      entryPrice: number;
-      entryTime: Date;
-      size: number;
-      signal: Signal;
-    }> = new Map();
-
-    let equity = config.initialCapital;
-    let peakEquity = equity;
-
-    // Get all unique timestamps
-    const allTimestamps = new Set<number>();
-    for (const snapshots of marketData.values()) {
-      for (const snapshot of snapshots) {
-        allTimestamps.add(snapshot.timestamp.getTime());
-      }
-    }
-    const sortedTimestamps = Array.from(allTimestamps).sort((a, b) => a - b);
+    sleeves: Sleeve[],
+    ticks: AsyncIterable<MarketSnapshot[]>,
+    config: BacktestConfig,
+    clock: SimulatedClock,
+    afterTick?: (date: Date, final?: boolean) => void
+  ): Promise<SimulationResult> {
+    const latestSnapshots = new Map<MarketId, MarketSnapshot>();
+    const outcomeNames = new Map<string, string>();
+    const benchmark = new BenchmarkTracker(config);
 
     // Simulate each time step
-    for (const timestamp of sortedTimestamps) {
-      const date = new Date(timestamp);
-      
-      // Get current market snapshots
-      const currentSnapshots: MarketSnapshot[] = [];
-      for (const [, snapshots] of marketData) {
-        const snapshot = snapshots.find(s => s.timestamp.getTime() === timestamp);
-        if (snapshot) currentSnapshots.push(snapshot);
+    for await (const tick of ticks) {
+      const date = new Date(tick[0].timestamp.getTime());
+      clock.set(date);
+
+      // Index current market snapshots, first snapshot per market wins
+      const currentMarkets = new Map<MarketId, MarketSnapshot>();
+      for (const snapshot of tick) {
+        benchmark.observe(snapshot);
+        latestSnapshots.set(snapshot.id, snapshot);
+        if (!currentMarkets.has(snapshot.id)) currentMarkets.set(snapshot.id, snapshot);
+        for (const outcome of snapshot.outcomes) {
+          if (!outcomeNames.has(outcome.id)) outcomeNames.set(outcome.id, outcome.name);
+        }
       }
 
-      if (currentSnapshots.length === 0) continue;
-
-      // Check for position exits
-      for (const [marketId, position] of positions) {
-        const market = currentSnapshots.find(m => m.id === marketId);
-        if (!market) continue;
-
-        const currentPrice = market.outcomes[0].price;
-        const shouldExit = this.shouldExitPosition(position, currentPrice, market);
-
-        if (shouldExit || market.resolved) {
-          const exitPrice = this.applySlippage(
-            currentPrice,
-            position.side === 'buy' ? 'sell' : 'buy'
-          );
-
-          const pnl = this.calculatePnL(
-            position.entryPrice,
-            exitPrice,
-            position.size,
-            position.side
-          );
-
-          const trade: BacktestTrade = {
-            id: generateId(),
-            marketId,
-            outcomeId: market.outcomes[0].id,
-            side: position.side,
-            entryTime: position.entryTime,
-            exitTime: date,
-            entryPrice: position.entryPrice,
-            exitPrice,
-            size: position.size,
-            pnl: pnl - this.fees * position.size * 2,
-            pnlPercent: (pnl / (position.size * position.entryPrice)) * 100,
-            fees: this.fees * position.size * 2,
-            slippage: Math.abs(exitPrice - currentPrice) * position.size,
-            signal: position.signal,
-          };
+      for (const sleeve of sleeves) {
+        await this.processExits(sleeve, currentMarkets, date);
+        await this.processSignals(sleeve, currentMarkets, config, date);
+        this.recordEquity(sleeve, date);
+      }
+      benchmark.record(date);
+      afterTick?.(date);
+    }
 
-          trades.push(trade);
-          equity += trade.pnl;
-          positions.delete(marketId);
-
-          // Notify strategy
-          strategy.onSignalExecuted(position.signal, {
-            signalId: position.signal.id,
-            executed: true,
-            entryPrice: position.entryPrice,
-            exitPrice,
-            pnl: trade.pnl,
-            pnlPercent: trade.pnlPercent,
-            holdingPeriod: (date.getTime() - position.entryTime.getTime()) / (1000 * 60 * 60),
-            outcome: trade.pnl > 0 ? 'win' : trade.pnl < 0 ? 'loss' : 'breakeven',
-          });
-        }
+    // Close remaining positions at end, settling them like any other exit
+    let liquidated = false;
+    for (const sleeve of sleeves) {
+      for (const [key, position] of sleeve.positions) {
+        const market = latestSnapshots.get(position.marketId);
+        const exitPrice = market && this.getOutcomePrice(market, position.outcomeId);
+        if (exitPrice === undefined) continue;
+
+        position.lastPrice = exitPrice;
+        position.lowestPrice = Math.min(position.lowestPrice, exitPrice);
+        position.highestPrice = Math.max(position.highestPrice, exitPrice);
+        const trade = this.closePosition(position, position.size, exitPrice, 0, config.endDate, 'end_of_backtest');
+
+        sleeve.trades.push(trade);
+        sleeve.realizedEquity += trade.pnl;
+        sleeve.cash += this.releaseCapital(position, trade);
+        sleeve.positions.delete(key);
+        this.notifyExit(sleeve.strategy, position, trade, config.endDate);
+        liquidated = true;
       }
+    }
 
-      // Generate new signals
-      const signals = await strategy.generateSignals(currentSnapshots);
+    // Final point so the equity curve ends at initial capital plus total PnL
+    if (liquidated) {
+      for (const sleeve of sleeves) {
+        this.recordEquity(sleeve, config.endDate);
+      }
+      benchmark.record(config.endDate);
+      afterTick?.(config.endDate, true);
+    }
 
-      // Process signals
-      for (const signal of signals) {
-        if (positions.size >= (config.maxConcurrentPositions || 10)) continue;
-        if (positions.has(signal.marketId)) continue;
+    return {
+      outcomeNames,
+      benchmarkCurve: benchmark.finish(),
+    };
+  }
 
-        const isValid = await strategy.validateSignal(signal);
-        if (!isValid) continue;
+  private createSleeve(strategy: IStrategy, capital: number): Sleeve {
+    return {
+      strategy,
+      positions: new Map(),
+      trades: [],
+      equityCurve: [],
+      cash: capital,
+      realizedEquity: capital,
+      peakEquity: capital,
+    };
+  }
 
-        const market = currentSnapshots.find(m => m.id === signal.marketId);
-        if (!market || market.resolved) continue;
+  /**
+   * Close positions that resolved or hit an exit rule
+   */
+  private async processExits(
+    sleeve: Sleeve,
+    currentMarkets: Map<MarketId, MarketSnapshot>,
+    date: Date
+  ): Promise<void> {
+    const { positions, strategy } = sleeve;
+
+    for (const [key, position] of positions) {
+      const market = currentMarkets.get(position.marketId);
+      if (!market) continue;
+
+      const currentPrice = this.getOutcomePrice(market, position.outcomeId);
+      if (currentPrice === undefined) continue;
+
+      position.lastPrice = currentPrice;
+      position.lowestPrice = Math.min(position.lowestPrice, currentPrice);
+      position.highestPrice = Math.max(position.highestPrice, currentPrice);
+
+      let trade: BacktestTrade;
+      let isPartial = false;
+      if (market.resolved) {
+        // Hold-to-resolution positions redeem at the binary payout
+        trade = this.settlePosition(position, market, currentPrice, date);
+      } else {
+        const exit = this.shouldExitPosition(position, currentPrice, market, date);
+        if (!exit) continue;
+
+        const exitSide = position.side === 'buy' ? 'sell' : 'buy';
+        const fill = await this.executeFill(
+          position.marketId,
+          position.outcomeId,
+          exitSide,
+          exit.size,
+          currentPrice,
+          date
+        );
 
-        // Calculate position size
-        const positionSize = strategy.getPositionSize(signal, equity);
-        if (positionSize < 1) continue;
+        // Thin books may leave part of the position open for a later step
+        if (fill.status === 'rejected') continue;
 
-        const entryPrice = this.applySlippage(
-          signal.entryPrice || market.outcomes[0].price,
-          signal.type as 'buy' | 'sell'
-        );
+        trade = this.closePosition(position, fill.filledSize, fill.price, fill.slippage, date, exit.reason);
+        isPartial = fill.filledSize < position.size - SIZE_EPSILON;
+      }
+
+      sleeve.trades.push(trade);
+      sleeve.realizedEquity += trade.pnl;
+      sleeve.cash += this.releaseCapital(position, trade);
 
-        positions.set(signal.marketId, {
-          side: signal.type as 'buy' | 'sell',
-          entryPrice,
-          entryTime: date,
-          size: positionSize,
-          signal,
-        });
+      if (isPartial) {
+        this.reducePosition(position, trade.size);
+        continue;
       }
+      positions.delete(key);
+      this.notifyExit(strategy, position, trade, date);
+    }
+  }
 
-      // Update equity curve
-      peakEquity = Math.max(peakEquity, equity);
-      const drawdown = peakEquity - equity;
-      const drawdownPercent = peakEquity > 0 ? drawdown / peakEquity : 0;
+  /**
+   * Notify the strategy of a closed position in terms of the outcome it
+   * signalled
+   */
+  private notifyExit(strategy: IStrategy, position: OpenPosition, trade: BacktestTrade, date: Date): void {
+    const complement = position.signal !== position.originalSignal;
+    strategy.onSignalExecuted(position.originalSignal, {
+      signalId: position.originalSignal.id,
+      executed: true,
+      entryPrice: complement ? 1 - position.entryPrice : position.entryPrice,
+      exitPrice: complement && trade.exitPrice !== undefined ? 1 - trade.exitPrice : trade.exitPrice,
+      pnl: trade.pnl,
+      pnlPercent: trade.pnlPercent,
+      holdingPeriod: (date.getTime() - position.entryTime.getTime()) / (1000 * 60 * 60),
+      outcome: trade.pnl > 0 ? 'win' : trade.pnl < 0 ? 'loss' : 'breakeven',
+    });
+  }
 
-      equityCurve.push({
-        timestamp: date,
-        equity,
-        drawdown,
-        drawdownPercent,
+  /**
+   * Generate the strategy's signals for this tick and open positions for
+   * those that pass validation and can be paid for
+   */
+  private async processSignals(
+    sleeve: Sleeve,
+    currentMarkets: Map<MarketId, MarketSnapshot>,
+    config: BacktestConfig,
+    date: Date
+  ): Promise<void> {
+    const { positions, strategy } = sleeve;
+
+    // Generate new signals
+    const signals = await strategy.generateSignals(Array.from(currentMarkets.values()));
+
+    // Process signals
+    for (const originalSignal of signals) {
+      if (positions.size >= (config.maxConcurrentPositions || 10)) continue;
+
+      const market = currentMarkets.get(originalSignal.marketId);
+      if (!market || market.resolved) continue;
+
+      const signal = this.shortMode === 'complement' && originalSignal.type === 'sell'
+        ? this.toComplementSignal(originalSignal, market)
+        : originalSignal;
+      if (!signal) continue;
+
+      const key = this.positionKey(signal.marketId, signal.outcomeId);
+      if (positions.has(key)) continue;
+
+      const isValid = await strategy.validateSignal(originalSignal);
+      if (!isValid) continue;
+
+      const outcomePrice = this.getOutcomePrice(market, signal.outcomeId);
+      if (outcomePrice === undefined) continue;
+
+      // Size off the cash still available, not the whole account
+      const positionSize = strategy.getPositionSize(signal, sleeve.cash);
+      if (positionSize < 1) continue;
+
+      const side = signal.type as 'buy' | 'sell';
+      const referencePrice = signal.entryPrice || outcomePrice;
+      const fill = await this.executeFill(
+        signal.marketId,
+        signal.outcomeId,
+        side,
+        positionSize / referencePrice,
+        referencePrice,
+        date
+      );
+      if (fill.status === 'rejected') continue;
+
+      // Reserve the capital at risk plus entry fees
+      const costBasis = this.calculateCostBasis(fill.price, fill.filledSize, side);
+      const entryFees = this.fees * fill.price * fill.filledSize;
+      if (costBasis + entryFees > sleeve.cash) continue;
+      sleeve.cash -= costBasis + entryFees;
+
+      positions.set(key, {
+        marketId: signal.marketId,
+        outcomeId: signal.outcomeId,
+        side,
+        entryPrice: fill.price,
+        entryTime: date,
+        size: fill.filledSize,
+        costBasis,
+        entryFees,
+        entrySlippage: fill.slippage,
+        lastPrice: outcomePrice,
+        lowestPrice: fill.price,
+        highestPrice: fill.price,
+        signal,
+        originalSignal,
+        initialSize: fill.filledSize,
+        stopPrice: signal.stopLoss || undefined,
+        stopReason: 'stop_loss',
       });
     }
+  }
 
-    // Close remaining positions at end
-    for (const [marketId, position] of positions) {
-      const lastSnapshots = Array.from(marketData.values())
-        .map(s => s[s.length - 1])
-        .filter(Boolean);
-      const market = lastSnapshots.find(m => m.id === marketId);
-
-      if (market) {
-        const exitPrice = market.outcomes[0].price;
-        const pnl = this.calculatePnL(
-          position.entryPrice,
-          exitPrice,
-          position.size,
-          position.side
-        );
+  /**
+   * Append the sleeve's equity, revaluing open positions at current prices
+   */
+  private recordEquity(sleeve: Sleeve, date: Date): void {
+    const { unrealizedPnl, grossExposure } = this.markToMarket(sleeve.positions);
+    const equity = sleeve.realizedEquity + unrealizedPnl;
+    sleeve.peakEquity = Math.max(sleeve.peakEquity, equity);
+    const drawdown = sleeve.peakEquity - equity;
+    const drawdownPercent = sleeve.peakEquity > 0 ? drawdown / sleeve.peakEquity : 0;
+
+    sleeve.equityCurve.push({
+      timestamp: date,
+      equity,
+      realizedEquity: sleeve.realizedEquity,
+      unrealizedPnl,
+      cash: sleeve.cash,
+      grossExposure,
+      drawdown,
+      drawdownPercent,
+    });
+  }
 
-        trades.push({
-          id: generateId(),
-          marketId,
-          outcomeId: market.outcomes[0].id,
-          side: position.side,
-          entryTime: position.entryTime,
-          exitTime: config.endDate,
-          entryPrice: position.entryPrice,
-          exitPrice,
-          size: position.size,
-          pnl: pnl - this.fees * position.size * 2,
-          pnlPercent: (pnl / (position.size * position.entryPrice)) * 100,
-          fees: this.fees * position.size * 2,
-          slippage: 0,
-          signal: position.signal,
-        });
-      }
+  /**
+   * Value open positions at their latest observed prices
+   */
+  private markToMarket(
+    positions: Map<string, OpenPosition>
+  ): { unrealizedPnl: number; grossExposure: number } {
+    let unrealizedPnl = 0;
+    let grossExposure = 0;
+
+    for (const position of positions.values()) {
+      const pnl = this.calculatePnL(
+        position.entryPrice,
+        position.lastPrice,
+        position.size,
+        position.side
+      );
+      unrealizedPnl += pnl - position.entryFees;
+      grossExposure += Math.abs(position.size * position.lastPrice);
     }
 
-    return { trades, equityCurve };
+    return { unrealizedPnl, grossExposure };
+  }
+
+  /**
+   * Capital locked by a position: the purchase price for longs, the
+   * maximum binary loss (1 - price) for shorts
+   */
+  private calculateCostBasis(
+    price: number,
+    size: number,
+    side: 'buy' | 'sell'
+  ): number {
+    return side === 'buy' ? price * size : Math.max(0, 1 - price) * size;
+  }
+
+  /**
+   * Cash returned when (part of) a position closes
+   */
+  private releaseCapital(position: OpenPosition, trade: BacktestTrade): number {
+    const fraction = trade.size / position.size;
+    return (position.costBasis + position.entryFees) * fraction + trade.pnl;
+  }
+
+  private reducePosition(position: OpenPosition, closedSize: number): void {
+    const remaining = 1 - closedSize / position.size;
+    position.costBasis *= remaining;
+    position.entryFees *= remaining;
+    position.entrySlippage *= remaining;
+    position.size -= closedSize;
+  }
+
+  private positionKey(marketId: MarketId, outcomeId: string): string {
+    return `${marketId}:${outcomeId}`;
+  }
+
+  private getOutcomePrice(
+    market: MarketSnapshot,
+    outcomeId: string
+  ): number | undefined {
+    return market.outcomes.find(o => o.id === outcomeId)?.price;
   }
 
   private shouldExitPosition(
-    position: { side: 'buy' | 'sell'; entryPrice: number; signal: Signal },
+    position: OpenPosition,
     currentPrice: number,
-    _market: MarketSnapshot
-  ): boolean {
-    const { signal, entryPrice, side } = position;
-
-    // Check stop loss
-    if (signal.stopLoss) {
-      if (side === 'buy' && currentPrice <= signal.stopLoss) return true;
-      if (side === 'sell' && currentPrice >= signal.stopLoss) return true;
+    _market: MarketSnapshot,
+    now: Date
+  ): ExitDecision | null {
+    const { signal, side } = position;
+    const rules = signal.exitRules;
+    const full = (reason: TradeExitReason): ExitDecision => ({ reason, size: position.size });
+
+    // Check stop loss, including trailing and break-even adjustments
+    this.updateStop(position);
+    if (position.stopPrice !== undefined) {
+      if (side === 'buy' && currentPrice <= position.stopPrice) return full(position.stopReason);
+      if (side === 'sell' && currentPrice >= position.stopPrice) return full(position.stopReason);
     }
 
     // Check take profit
     if (signal.takeProfit) {
-      if (side === 'buy' && currentPrice >= signal.takeProfit) return true;
-      if (side === 'sell' && currentPrice <= signal.takeProfit) return true;
+      if (side === 'buy' && currentPrice >= signal.takeProfit) return full('take_profit');
+      if (side === 'sell' && currentPrice <= signal.takeProfit) return full('take_profit');
+    }
+
+    // Scale out at each take profit level reached so far
+    if (rules?.takeProfitLevels?.length) {
+      const reached = rules.takeProfitLevels
+        .filter(level => (side === 'buy' ? currentPrice >= level.price : currentPrice <= level.price))
+        .reduce((sum, level) => sum + level.fraction, 0);
+      const target = Math.min(1, reached) * position.initialSize;
+      const closed = position.initialSize - position.size;
+      if (target - closed > SIZE_EPSILON) {
+        return { reason: 'take_profit', size: Math.min(position.size, target - closed) };
+      }
+    }
+
+    // Check time stop
+    if (rules?.maxHoldingHours !== undefined) {
+      const heldHours = (now.getTime() - position.entryTime.getTime()) / (1000 * 60 * 60);
+      if (heldHours >= rules.maxHoldingHours) return full('time_stop');
     }
 
     // Check expiration
-    if (signal.expiresAt && new Date() > signal.expiresAt) return true;
+    if (signal.expiresAt && now > signal.expiresAt) return full('expired');
+
+    return null;
+  }
+
+  /**
+   * Tighten the position's stop from its exit rules using the best price
+   * seen since entry. Stops only ever move in the position's favour.
+   */
+  private updateStop(position: OpenPosition): void {
+    const rules = position.signal.exitRules;
+    if (!rules) return;
+
+    const { side, entryPrice } = position;
+    const best = side === 'buy' ? position.highestPrice : position.lowestPrice;
+    const direction = side === 'buy' ? 1 : -1;
+    const tighten = (price: number, reason: TradeExitReason) => {
+      const current = position.stopPrice;
+      if (current === undefined || (price - current) * direction > 0) {
+        position.stopPrice = price;
+        position.stopReason = reason;
+      }
+    };
+
+    if (rules.breakEven && (best - entryPrice) * direction >= rules.breakEven.trigger) {
+      tighten(entryPrice + direction * (rules.breakEven.offset ?? 0), 'break_even');
+    }
+
+    const trailing = rules.trailingStop;
+    if (trailing) {
+      const distance = trailing.type === 'absolute'
+        ? trailing.distance
+        : trailing.type === 'percent'
+          ? best * (trailing.percent / 100)
+          : trailing.atr * trailing.multiplier;
+      if (distance > 0) tighten(best - direction * distance, 'trailing_stop');
+    }
+  }
 
-    return false;
+  private async executeFill(
+    marketId: MarketId,
+    outcomeId: string,
+    side: 'buy' | 'sell',
+    size: number,
+    price: number,
+    timestamp: Date
+  ): Promise<FillResult> {
+    const orderBook = this.fillModel !== this.flatFillModel
+      ? await this.dataProvider.getOrderBook?.(marketId, outcomeId, timestamp)
+      : undefined;
+
+    return this.fillModel.fill({ side, size, price, orderBook });
   }
 
-  private applySlippage(price: number, side: 'buy' | 'sell'): number {
-    const slippageFactor = side === 'buy' ? 1 + this.slippage : 1 - this.slippage;
-    return price * slippageFactor;
+  /**
+   * Redeem a position in a resolved market: 1.0 for the winning outcome,
+   * 0.0 for the rest, with no slippage and only the settlement fee on exit
+   */
+  private settlePosition(
+    position: OpenPosition,
+    market: MarketSnapshot,
+    lastPrice: number,
+    exitTime: Date
+  ): BacktestTrade {
+    const payout = this.getResolutionPayout(market, position.outcomeId) ?? lastPrice;
+    const settlementFees = this.settlementFee * payout * position.size;
+
+    return this.closePosition(
+      position,
+      position.size,
+      payout,
+      0,
+      exitTime,
+      'resolution',
+      settlementFees
+    );
+  }
+
+  /**
+   * Re-express a sell signal on one outcome of a binary market as a buy of
+   * the other outcome, mirroring its price levels (p -> 1 - p)
+   */
+  private toComplementSignal(signal: Signal, market: MarketSnapshot): Signal | undefined {
+    if (market.outcomes.length !== 2) return undefined;
+    if (!market.outcomes.some(o => o.id === signal.outcomeId)) return undefined;
+
+    const complement = market.outcomes.find(o => o.id !== signal.outcomeId);
+    if (!complement) return undefined;
+
+    const mirror = (price?: number) => (price !== undefined ? 1 - price : undefined);
+    const rules = signal.exitRules;
+
+    return {
+      ...signal,
+      outcomeId: complement.id,
+      type: 'buy',
+      entryPrice: mirror(signal.entryPrice),
+      targetPrice: mirror(signal.targetPrice),
+      stopLoss: mirror(signal.stopLoss),
+      takeProfit: mirror(signal.takeProfit),
+      // Distances carry over unchanged; only absolute levels are mirrored
+      exitRules: rules && {
+        ...rules,
+        takeProfitLevels: rules.takeProfitLevels?.map(level => ({
+          ...level,
+          price: 1 - level.price,
+        })),
+      },
+    };
+  }
+
+  private getResolutionPayout(
+    market: MarketSnapshot,
+    outcomeId: string
+  ): number | undefined {
+    if (!market.resolutionOutcome) return undefined;
+
+    // Resolution may be reported by outcome id or by name ("Yes"/"No")
+    const resolution = market.resolutionOutcome.toLowerCase();
+    const outcome = market.outcomes.find(o => o.id === outcomeId);
+    const isWinner = outcomeId.toLowerCase() === resolution ||
+      outcome?.name.toLowerCase() === resolution;
+
+    return isWinner ? 1 : 0;
+  }
+
+  private closePosition(
+    position: OpenPosition,
+    size: number,
+    exitPrice: number,
+    exitSlippage: number,
+    exitTime: Date,
+    exitReason: TradeExitReason,
+    exitFees: number = this.fees * exitPrice * size
+  ): BacktestTrade {
+    const pnl = this.calculatePnL(
+      position.entryPrice,
+      exitPrice,
+      size,
+      position.side
+    );
+    const fraction = size / position.size;
+    const entrySlippage = position.entrySlippage * fraction;
+    const fees = position.entryFees * fraction + exitFees;
+    const { adverse, favorable } = this.calculateExcursions(position);
+
+    return {
+      id: generateId(),
+      marketId: position.marketId,
+      outcomeId: position.outcomeId,
+      side: position.side,
+      entryTime: position.entryTime,
+      exitTime,
+      entryPrice: position.entryPrice,
+      exitPrice,
+      size,
+      pnl: pnl - fees,
+      pnlPercent: (pnl / (size * position.entryPrice)) * 100,
+      fees,
+      slippage: entrySlippage + exitSlippage,
+      exitReason,
+      maxAdverseExcursion: adverse,
+      maxFavorableExcursion: favorable,
+      signal: position.signal,
+      complementOf: position.signal !== position.originalSignal
+        ? position.originalSignal.outcomeId
+        : undefined,
+    };
+  }
+
+  /**
+   * Worst and best unrealized move against the entry price while the
+   * position was open, as percentages of the entry price
+   */
+  private calculateExcursions(
+    position: OpenPosition
+  ): { adverse: number; favorable: number } {
+    const { entryPrice, lowestPrice, highestPrice, side } = position;
+    if (entryPrice <= 0) return { adverse: 0, favorable: 0 };
+
+    const down = Math.max(0, entryPrice - lowestPrice) / entryPrice * 100;
+    const up = Math.max(0, highestPrice - entryPrice) / entryPrice * 100;
+
+    return side === 'buy'
+      ? { adverse: down, favorable: up }
+      : { adverse: up, favorable: down };
   }
 
   private calculatePnL(
@@ -320,8 +994,11 @@ export class BacktestEngine {
   private calculateSummary(
     trades: BacktestTrade[],
     equityCurve: EquityPoint[],
-    config: BacktestConfig
+    config: BacktestConfig,
+    periodsPerYear: number
   ): BacktestSummary {
+    const riskFreeRate = toPeriodicRate(config.riskFreeRate || 0, periodsPerYear);
+
     const winningTrades = trades.filter(t => t.pnl > 0);
     const losingTrades = trades.filter(t => t.pnl < 0);
 
@@ -349,8 +1026,8 @@ export class BacktestEngine {
         ? totalPnl / config.initialCapital 
         : 0,
       maxDrawdown: dd.percent,
-      sharpeRatio: sharpeRatio(returns),
-      sortinoRatio: sortinoRatio(returns),
+      sharpeRatio: sharpeRatio(returns, riskFreeRate, periodsPerYear),
+      sortinoRatio: sortinoRatio(returns, riskFreeRate, periodsPerYear),
       profitFactor: grossLoss > 0 ? grossProfit / grossLoss : Infinity,
       averageWin: winningTrades.length > 0 
         ? grossProfit / winningTrades.length 
@@ -368,9 +1045,28 @@ export class BacktestEngine {
         ? holdingPeriods.reduce((a, b) => a + b, 0) / holdingPeriods.length 
         : 0,
       exposure: this.calculateExposure(trades, equityCurve),
+      ...this.calculateCapitalUsage(equityCurve),
     };
   }
 
+  private calculateCapitalUsage(
+    equityCurve: EquityPoint[]
+  ): { peakCapitalUtilization: number; maxLeverage: number } {
+    let peakCapitalUtilization = 0;
+    let maxLeverage = 0;
+
+    for (const point of equityCurve) {
+      if (point.equity <= 0) continue;
+      peakCapitalUtilization = Math.max(
+        peakCapitalUtilization,
+        (point.equity - point.cash) / point.equity
+      );
+      maxLeverage = Math.max(maxLeverage, point.grossExposure / point.equity);
+    }
+
+    return { peakCapitalUtilization, maxLeverage };
+  }
+
   private calculateExposure(
     trades: BacktestTrade[],
     equityCurve: EquityPoint[]
@@ -439,12 +1135,21 @@ export class BacktestEngine {
     return drawdowns;
   }
 
-  private calculateMonthlyReturns(equityCurve: EquityPoint[]): MonthlyReturn[] {
+  private calculateMonthlyReturns(
+    equityCurve: EquityPoint[],
+    trades: BacktestTrade[]
+  ): MonthlyReturn[] {
     const monthly: MonthlyReturn[] = [];
     const byMonth = new Map<string, EquityPoint[]>();
+    // UTC months, matching the ISO dates shown in exports and reports
+    const monthKey = (date: Date) => `${date.getUTCFullYear()}-${date.getUTCMonth()}`;
+    const tradesByMonth = groupBy(
+      trades.filter(t => t.exitTime),
+      t => monthKey(t.exitTime!)
+    );
 
     for (const point of equityCurve) {
-      const key = `${point.timestamp.getFullYear()}-${point.timestamp.getMonth()}`;
+      const key = monthKey(point.timestamp);
       if (!byMonth.has(key)) {
         byMonth.set(key, []);
       }
@@ -462,11 +1167,15 @@ export class BacktestEngine {
         ? (endEquity - startEquity) / startEquity 
         : 0;
 
+      const { trades: count, winRate, pnl } = summarizeTrades(key, tradesByMonth[key] || []);
+
       monthly.push({
         year,
         month,
         return: returnPct,
-        trades: 0, // Would need to track this separately
+        trades: count,
+        winRate,
+        pnl,
       });
     }
 
@@ -478,8 +1187,12 @@ export class BacktestEngine {
   private calculateMetrics(
     trades: BacktestTrade[],
     equityCurve: EquityPoint[],
-    config: BacktestConfig
+    config: BacktestConfig,
+    periodsPerYear: number,
+    benchmarkCurve?: BenchmarkPoint[]
   ): PerformanceMetrics {
+    const riskFreeRate = toPeriodicRate(config.riskFreeRate || 0, periodsPerYear);
+
     const returns = equityCurve.slice(1).map((e, i) => 
       (e.equity - equityCurve[i].equity) / equityCurve[i].equity
     );
@@ -517,7 +1230,7 @@ export class BacktestEngine {
     const variance = squaredDiffs.length > 0 
       ? squaredDiffs.reduce((a, b) => a + b, 0) / squaredDiffs.length 
       : 0;
-    const volatility = Math.sqrt(variance) * Math.sqrt(252); // Annualized
+    const volatility = Math.sqrt(variance) * Math.sqrt(periodsPerYear); // Annualized
 
     // Ulcer Index
     const squaredDrawdowns = equityCurve.map(e => Math.pow(e.drawdownPercent * 100, 2));
@@ -528,8 +1241,9 @@ export class BacktestEngine {
     return {
       cagr: cagr(startEquity, endEquity, years),
       volatility,
-      sharpeRatio: sharpeRatio(returns),
-      sortinoRatio: sortinoRatio(returns),
+      periodsPerYear,
+      sharpeRatio: sharpeRatio(returns, riskFreeRate, periodsPerYear),
+      sortinoRatio: sortinoRatio(returns, riskFreeRate, periodsPerYear),
       calmarRatio: dd.percent > 0 ? cagr(startEquity, endEquity, years) / dd.percent : 0,
       maxDrawdown: dd.percent,
       maxDrawdownDuration: this.getMaxDrawdownDuration(equityCurve),
@@ -538,6 +1252,9 @@ export class BacktestEngine {
       expectancy,
       payoffRatio: avgLoss > 0 ? avgWin / avgLoss : 0,
       ulcerIndex,
+      ...(benchmarkCurve
+        ? calculateBenchmarkMetrics(equityCurve, benchmarkCurve, periodsPerYear)
+        : {}),
     };
   }
 
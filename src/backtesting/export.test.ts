@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { BacktestResult } from '../types';
+import { BacktestEngine } from './engine';
+import { equityCurveToCSV, toJSON, tradesToCSV } from './export';
+import { MemoryMarketDataProvider, ScriptedStrategy, TEST_START, binaryMarket, hour, round } from '../test-helpers';
+
+function parseRow(line: string): Array<string | number> {
+  return line.split(',').map(cell => (cell !== '' && !Number.isNaN(Number(cell)) ? round(Number(cell)) as number : cell));
+}
+
+describe('backtest export', () => {
+  let result: BacktestResult;
+
+  beforeAll(async () => {
+    // Commas and quotes in ids force CSV quoting
+    const provider = new MemoryMarketDataProvider({ 'a,b': binaryMarket('a,b', [0.7, 0.6, 0.5]) });
+    const engine = new BacktestEngine(provider, { fees: 0, slippage: 0, shortMode: 'complement' });
+    result = await engine.run(
+      new ScriptedStrategy([
+        { at: 0, marketId: 'a,b', outcomeId: 'a,b-yes', type: 'sell', id: 'say "sell"' },
+      ]),
+      {
+        strategyId: 'scripted',
+        parameters: {},
+        startDate: TEST_START,
+        endDate: hour(2),
+        initialCapital: 1000,
+        markets: ['a,b'],
+      }
+    );
+  });
+
+  it('writes one CSV row per trade with the complement it was shorted through', () => {
+    const [header, row, trailing, ...rest] = tradesToCSV(result).split('\n');
+
+    expect(header).toBe(
+      'id,marketId,outcomeId,side,complementOf,entryTime,exitTime,entryPrice,exitPrice,size,pnl,pnlPercent,' +
+      'fees,slippage,exitReason,maxAdverseExcursion,maxFavorableExcursion,signalId,strength,confidence'
+    );
+    expect(row).toMatch(
+      new RegExp(
+        '^[^,]+,"a,b","a,b-no",buy,"a,b-yes",2024-01-01T00:00:00.000Z,2024-01-01T02:00:00.000Z,' +
+        '[^,]+,0.5,[^,]+,[^,]+,[^,]+,0,0,end_of_backtest,0,[^,]+,"say ""sell""",3,0.8$'
+      )
+    );
+    expect(trailing).toBe('');
+    expect(rest).toEqual([]);
+
+    const trade = result.trades[0];
+    expect(round([trade.entryPrice, trade.size, trade.pnl])).toEqual([0.3, 333.3333333, 66.66666667]);
+  });
+
+  it('writes the equity curve as CSV', () => {
+    const lines = equityCurveToCSV(result).trimEnd().split('\n');
+
+    expect(lines[0]).toBe('timestamp,equity,realizedEquity,unrealizedPnl,cash,grossExposure,drawdown,drawdownPercent');
+    expect(lines.slice(1).map(parseRow)).toEqual([
+      ['2024-01-01T00:00:00.000Z', 1000, 1000, 0, 900, 100, 0, 0],
+      ['2024-01-01T01:00:00.000Z', 1033.333333, 1000, 33.33333333, 900, 133.3333333, 0, 0],
+      ['2024-01-01T02:00:00.000Z', 1066.666667, 1000, 66.66666667, 900, 166.6666667, 0, 0],
+      ['2024-01-01T02:00:00.000Z', 1066.666667, 1066.666667, 0, 1066.666667, 0, 0, 0],
+    ]);
+  });
+
+  it('writes a result as JSON with ISO dates and non-finite numbers as null', () => {
+    expect(result.summary.profitFactor).toBe(Infinity);
+
+    const parsed = JSON.parse(toJSON(result));
+    expect(parsed.summary.profitFactor).toBeNull();
+    expect(parsed.config.startDate).toBe('2024-01-01T00:00:00.000Z');
+    expect(parsed.trades[0].complementOf).toBe('a,b-yes');
+    expect(parsed.trades).toHaveLength(1);
+    expect(toJSON(result, 0)).not.toContain('\n');
+  });
+});
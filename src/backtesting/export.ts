@@ -0,0 +1,112 @@
+/**
+ * EdgePoly Strategies - Backtest Export
+ *
+ * Serializes backtest results to JSON and CSV.
+ */
+
+import type { BacktestResult } from '../types';
+
+/**
+ * Serialize a result to JSON, writing dates as ISO strings and non-finite
+ * numbers as null
+ */
+export function toJSON(result: BacktestResult, space: number = 2): string {
+  return JSON.stringify(
+    result,
+    (_key, value) => (typeof value === 'number' && !Number.isFinite(value) ? null : value),
+    space
+  );
+}
+
+/**
+ * One row per closed trade
+ */
+export function tradesToCSV(result: BacktestResult): string {
+  const header = [
+    'id',
+    'marketId',
+    'outcomeId',
+    'side',
+    'complementOf',
+    'entryTime',
+    'exitTime',
+    'entryPrice',
+    'exitPrice',
+    'size',
+    'pnl',
+    'pnlPercent',
+    'fees',
+    'slippage',
+    'exitReason',
+    'maxAdverseExcursion',
+    'maxFavorableExcursion',
+    'signalId',
+    'strength',
+    'confidence',
+  ];
+
+  const rows = result.trades.map(trade => [
+    trade.id,
+    trade.marketId,
+    trade.outcomeId,
+    trade.side,
+    trade.complementOf ?? '',
+    trade.entryTime.toISOString(),
+    trade.exitTime?.toISOString() ?? '',
+    trade.entryPrice,
+    trade.exitPrice ?? '',
+    trade.size,
+    trade.pnl,
+    trade.pnlPercent,
+    trade.fees,
+    trade.slippage,
+    trade.exitReason,
+    trade.maxAdverseExcursion,
+    trade.maxFavorableExcursion,
+    trade.signal.id,
+    trade.signal.strength,
+    trade.signal.confidence,
+  ]);
+
+  return toCSV(header, rows);
+}
+
+/**
+ * One row per equity curve point
+ */
+export function equityCurveToCSV(result: BacktestResult): string {
+  const header = [
+    'timestamp',
+    'equity',
+    'realizedEquity',
+    'unrealizedPnl',
+    'cash',
+    'grossExposure',
+    'drawdown',
+    'drawdownPercent',
+  ];
+
+  const rows = result.equityCurve.map(point => [
+    point.timestamp.toISOString(),
+    point.equity,
+    point.realizedEquity,
+    point.unrealizedPnl,
+    point.cash,
+    point.grossExposure,
+    point.drawdown,
+    point.drawdownPercent,
+  ]);
+
+  return toCSV(header, rows);
+}
+
+function toCSV(header: string[], rows: Array<Array<string | number>>): string {
+  return [header, ...rows]
+    .map(row => row.map(escapeCSV).join(','))
+    .join('\n') + '\n';
+}
+
+function escapeCSV(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { FlatSlippageFillModel, OrderBookFillModel } from './fills';
+import type { OrderBookSnapshot } from '../types';
+
+const book: OrderBookSnapshot = {
+  marketId: 'm1',
+  outcomeId: 'yes',
+  bids: [
+    { price: 0.48, size: 100 },
+    { price: 0.49, size: 50 },
+  ],
+  asks: [
+    { price: 0.53, size: 100 },
+    { price: 0.51, size: 50 },
+  ],
+  spread: 0.02,
+  midPrice: 0.5,
+  timestamp: new Date('2024-01-01T00:00:00Z'),
+};
+
+describe('FlatSlippageFillModel', () => {
+  it('moves the price against the order by the slippage', () => {
+    const model = new FlatSlippageFillModel(0.01);
+
+    const buy = model.fill({ side: 'buy', size: 100, price: 0.5 });
+    expect(buy).toMatchObject({ status: 'filled', filledSize: 100, levelsConsumed: 0 });
+    expect(buy.price).toBeCloseTo(0.505, 12);
+    expect(buy.slippage).toBeCloseTo(0.5, 12);
+
+    const sell = model.fill({ side: 'sell', size: 100, price: 0.5 });
+    expect(sell.price).toBeCloseTo(0.495, 12);
+    expect(sell.slippage).toBeCloseTo(0.5, 12);
+  });
+});
+
+describe('OrderBookFillModel', () => {
+  it('walks asks from the cheapest level and reports the VWAP', () => {
+    const result = new OrderBookFillModel().fill({ side: 'buy', size: 100, price: 0.5, orderBook: book });
+
+    expect(result).toMatchObject({ status: 'filled', requestedSize: 100, filledSize: 100, levelsConsumed: 2 });
+    // 50 @ 0.51 + 50 @ 0.53
+    expect(result.price).toBeCloseTo(0.52, 12);
+    expect(result.slippage).toBeCloseTo(2, 12);
+  });
+
+  it('walks bids from the richest level for sells', () => {
+    const result = new OrderBookFillModel().fill({ side: 'sell', size: 75, price: 0.5, orderBook: book });
+
+    // 50 @ 0.49 + 25 @ 0.48
+    expect(result.price).toBeCloseTo((50 * 0.49 + 25 * 0.48) / 75, 12);
+    expect(result.levelsConsumed).toBe(2);
+  });
+
+  it('fills partially when the book is too thin', () => {
+    const result = new OrderBookFillModel().fill({ side: 'buy', size: 300, price: 0.5, orderBook: book });
+
+    expect(result).toMatchObject({ status: 'partial', requestedSize: 300, filledSize: 150 });
+    expect(result.price).toBeCloseTo((50 * 0.51 + 100 * 0.53) / 150, 12);
+  });
+
+  it('rejects partial fills when they are disallowed or below the minimum ratio', () => {
+    const strict = new OrderBookFillModel({ allowPartialFills: false });
+    expect(strict.fill({ side: 'buy', size: 300, price: 0.5, orderBook: book })).toEqual({
+      status: 'rejected',
+      requestedSize: 300,
+      filledSize: 0,
+      price: 0.5,
+      slippage: 0,
+      levelsConsumed: 0,
+    });
+
+    const ratio = new OrderBookFillModel({ minFillRatio: 0.6 });
+    expect(ratio.fill({ side: 'buy', size: 300, price: 0.5, orderBook: book }).status).toBe('rejected');
+  });
+
+  it('stops at levels beyond the maximum price impact', () => {
+    const model = new OrderBookFillModel({ maxPriceImpact: 0.04 });
+
+    // 0.51 is 2% from mid, 0.53 is 6%
+    const result = model.fill({ side: 'buy', size: 100, price: 0.5, orderBook: book });
+    expect(result).toMatchObject({ status: 'partial', filledSize: 50, price: 0.51, levelsConsumed: 1 });
+
+    const empty = { ...book, asks: [{ price: 0.6, size: 100 }] };
+    expect(model.fill({ side: 'buy', size: 100, price: 0.5, orderBook: empty }).status).toBe('rejected');
+  });
+
+  it('uses the fallback model without an order book', () => {
+    const model = new OrderBookFillModel({ fallback: new FlatSlippageFillModel(0.02) });
+    const result = model.fill({ side: 'buy', size: 10, price: 0.5 });
+
+    expect(result.status).toBe('filled');
+    expect(result.price).toBeCloseTo(0.51, 12);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * EdgePoly Strategies - Fill Simulation
+ *
+ * Models how backtest orders are filled, from a flat slippage haircut
+ * to walking historical order book depth.
+ */
+
+import type { OrderBookSnapshot } from '../types';
+
+export interface FillRequest {
+  side: 'buy' | 'sell';
+  size: number;
+  price: number; // reference (mid) price
+  orderBook?: OrderBookSnapshot;
+}
+
+export interface FillResult {
+  status: 'filled' | 'partial' | 'rejected';
+  requestedSize: number;
+  filledSize: number;
+  price: number; // volume-weighted average fill price
+  slippage: number; // cost versus the reference price
+  levelsConsumed: number;
+}
+
+export interface FillModel {
+  fill(request: FillRequest): FillResult;
+}
+
+/**
+ * Fills the full size at the reference price moved by a fixed percentage
+ */
+export class FlatSlippageFillModel implements FillModel {
+  private slippage: number;
+
+  constructor(slippage: number = 0.005) {
+    this.slippage = slippage;
+  }
+
+  fill(request: FillRequest): FillResult {
+    const slippageFactor = request.side === 'buy' ? 1 + this.slippage : 1 - this.slippage;
+    const price = request.price * slippageFactor;
+
+    return {
+      status: 'filled',
+      requestedSize: request.size,
+      filledSize: request.size,
+      price,
+      slippage: Math.abs(price - request.price) * request.size,
+      levelsConsumed: 0,
+    };
+  }
+}
+
+export interface OrderBookFillOptions {
+  fallback?: FillModel; // used when no order book is available
+  allowPartialFills?: boolean;
+  minFillRatio?: number; // 0-1, smaller fills are rejected
+  maxPriceImpact?: number; // max distance from mid, as a fraction of mid
+}
+
+/**
+ * Walks order book depth to compute volume-weighted fills
+ */
+export class OrderBookFillModel implements FillModel {
+  private fallback: FillModel;
+  private allowPartialFills: boolean;
+  private minFillRatio: number;
+  private maxPriceImpact?: number;
+
+  constructor(options: OrderBookFillOptions = {}) {
+    this.fallback = options.fallback || new FlatSlippageFillModel();
+    this.allowPartialFills = options.allowPartialFills ?? true;
+    this.minFillRatio = options.minFillRatio ?? 0.1;
+    this.maxPriceImpact = options.maxPriceImpact;
+  }
+
+  fill(request: FillRequest): FillResult {
+    const { orderBook } = request;
+    if (!orderBook) return this.fallback.fill(request);
+
+    // Buys lift asks from the cheapest up, sells hit bids from the richest down
+    const levels = request.side === 'buy'
+      ? [...orderBook.asks].sort((a, b) => a.price - b.price)
+      : [...orderBook.bids].sort((a, b) => b.price - a.price);
+
+    const referencePrice = orderBook.midPrice || request.price;
+    let remaining = request.size;
+    let filledSize = 0;
+    let cost = 0;
+    let levelsConsumed = 0;
+
+    for (const level of levels) {
+      if (remaining <= 0) break;
+      if (level.size <= 0) continue;
+
+      if (this.maxPriceImpact !== undefined && referencePrice > 0) {
+        const impact = Math.abs(level.price - referencePrice) / referencePrice;
+        if (impact > this.maxPriceImpact) break;
+      }
+
+      const take = Math.min(remaining, level.size);
+      filledSize += take;
+      cost += take * level.price;
+      remaining -= take;
+      levelsConsumed++;
+    }
+
+    const isComplete = remaining <= 1e-9;
+    const fillRatio = request.size > 0 ? filledSize / request.size : 0;
+
+    if (
+      filledSize === 0 ||
+      (!isComplete && (!this.allowPartialFills || fillRatio < this.minFillRatio))
+    ) {
+      return {
+        status: 'rejected',
+        requestedSize: request.size,
+        filledSize: 0,
+        price: referencePrice,
+        slippage: 0,
+        levelsConsumed: 0,
+      };
+    }
+
+    const price = cost / filledSize;
+
+    return {
+      status: isComplete ? 'filled' : 'partial',
+      requestedSize: request.size,
+      filledSize: isComplete ? request.size : filledSize,
+      price,
+      slippage: Math.abs(price - referencePrice) * filledSize,
+      levelsConsumed,
+    };
+  }
+}
@@ -3,4 +3,88 @@
  */
 
 export { BacktestEngine } from './engine';
-export type { MarketDataProvider } from './engine';
+export type { MarketDataProvider, BacktestEngineOptions } from './engine';
+export { FlatSlippageFillModel, OrderBookFillModel } from './fills';
+export type { FillModel, FillRequest, FillResult, OrderBookFillOptions } from './fills';
+export {
+  getParameterValues,
+  getParameterSpace,
+  countCombinations,
+  buildParameterGrid,
+  sampleParameterSet,
+} from './parameters';
+export type { ParameterSet, ParameterSpaceOptions } from './parameters';
+export { WalkForwardOptimizer, stitchEquityCurves, scoreResult } from './walk-forward';
+export type {
+  OptimizationObjective,
+  OptimizationDirection,
+  WalkForwardConfig,
+  WalkForwardWindow,
+  WalkForwardFailure,
+  WalkForwardResult,
+  ParameterStability,
+} from './walk-forward';
+export { ParameterSweep, buildHeatmap } from './sweep';
+export type {
+  ParameterSweepConfig,
+  ParameterSweepResult,
+  SweepRun,
+  SweepFailure,
+  HeatmapMatrix,
+} from './sweep';
+export { runMonteCarlo } from './monte-carlo';
+export type {
+  MonteCarloConfig,
+  MonteCarloResult,
+  DistributionStats,
+} from './monte-carlo';
+export { toJSON, tradesToCSV, equityCurveToCSV } from './export';
+export { toHTMLReport, toMarkdownReport } from './report';
+export type { ReportOptions } from './report';
+export {
+  FileMarketDataProvider,
+  CsvMarketDataProvider,
+  JsonlMarketDataProvider,
+  JsonMarketDataProvider,
+  createFileProvider,
+  marketSnapshotSchema,
+  outcomeSnapshotSchema,
+} from './providers';
+export { CachingMarketDataProvider, resampleSnapshots } from './caching';
+export type { CachingProviderOptions } from './caching';
+export { parseInterval } from '../utils/helpers';
+export type { ResampleInterval } from '../utils/helpers';
+export { SyntheticMarketDataProvider } from './synthetic';
+export type { SyntheticMarketConfig, SyntheticMarketInfo } from './synthetic';
+export {
+  BenchmarkTracker,
+  calculateBenchmarkMetrics,
+} from './benchmark';
+export type { BenchmarkMetrics } from './benchmark';
+export { calculateTradeBreakdowns, summarizeTrades } from './breakdowns';
+export type { BreakdownOptions } from './breakdowns';
+export { mergeSnapshotStreams, streamSnapshots } from './stream';
+export { BatchBacktestRunner } from './batch';
+export type {
+  BatchStrategySpec,
+  BatchBacktestOptions,
+  BatchRun,
+  BatchFailure,
+  BatchComparisonRow,
+  BatchBacktestResult,
+} from './batch';
+export {
+  calculateAllocationWeights,
+  planRebalance,
+  combineEquityCurves,
+  timeWeightedCurve,
+  normalizeWeights,
+} from './portfolio';
+export type {
+  AllocationMethod,
+  PortfolioSleeve,
+  AllocationConfig,
+  SleeveResult,
+  AllocationSnapshot,
+  PortfolioBacktestResult,
+} from './portfolio';
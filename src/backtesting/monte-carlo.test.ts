@@ -0,0 +1,80 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { BacktestResult } from '../types';
+import { BacktestEngine } from './engine';
+import { runMonteCarlo } from './monte-carlo';
+import { SyntheticMarketDataProvider } from './synthetic';
+import { MomentumStrategy } from '../strategies/momentum';
+import { round } from '../test-helpers';
+
+describe('runMonteCarlo', () => {
+  let result: BacktestResult;
+
+  beforeAll(async () => {
+    const provider = new SyntheticMarketDataProvider({ seed: 7, markets: 6, clusters: 2 });
+    result = await new BacktestEngine(provider).run(new MomentumStrategy(), {
+      strategyId: 'momentum-v1',
+      parameters: {},
+      startDate: new Date('2024-01-01T00:00:00Z'),
+      endDate: new Date('2024-03-01T00:00:00Z'),
+      initialCapital: 10000,
+      markets: await provider.getMarketIds(),
+    });
+    expect(result.trades.length).toBeGreaterThan(10);
+  });
+
+  it('is reproducible for a seed', () => {
+    const config = { iterations: 200, seed: 42, slippagePerturbation: 0.5, feePerturbation: 0.5 };
+
+    expect(runMonteCarlo(result, config)).toEqual(runMonteCarlo(result, config));
+    expect(runMonteCarlo(result, { ...config, seed: 43 }).finalEquity)
+      .not.toEqual(runMonteCarlo(result, config).finalEquity);
+  });
+
+  it('keeps the final equity of every shuffled path', () => {
+    const monteCarlo = runMonteCarlo(result, { iterations: 100, method: 'shuffle' });
+
+    expect(monteCarlo.finalEquity.min).toBeCloseTo(monteCarlo.observed.finalEquity, 6);
+    expect(monteCarlo.finalEquity.max).toBeCloseTo(monteCarlo.observed.finalEquity, 6);
+    expect(monteCarlo.maxDrawdown.max).toBeGreaterThanOrEqual(monteCarlo.maxDrawdown.min);
+  });
+
+  it('brackets the median with the confidence interval', () => {
+    const monteCarlo = runMonteCarlo(result, { iterations: 500, confidenceLevel: 0.9 });
+
+    for (const stats of [monteCarlo.finalEquity, monteCarlo.maxDrawdown, monteCarlo.sharpeRatio]) {
+      const percentiles = [5, 25, 50, 75, 95].map(p => stats.percentiles[p]);
+      expect(percentiles).toEqual([...percentiles].sort((a, b) => a - b));
+      expect(stats.percentiles[50]).toBe(stats.median);
+      expect(stats.confidenceInterval.lower).toBeLessThan(stats.confidenceInterval.upper);
+      expect(stats.confidenceInterval.lower).toBeLessThanOrEqual(stats.median);
+      expect(stats.confidenceInterval.upper).toBeGreaterThanOrEqual(stats.median);
+      expect(stats.min).toBeLessThanOrEqual(stats.confidenceInterval.lower);
+      expect(stats.max).toBeGreaterThanOrEqual(stats.confidenceInterval.upper);
+    }
+    expect(monteCarlo.riskOfRuin).toBeGreaterThanOrEqual(0);
+    expect(monteCarlo.riskOfRuin).toBeLessThanOrEqual(1);
+  });
+
+  it('widens the distribution when costs are perturbed', () => {
+    const base = runMonteCarlo(result, { iterations: 300, method: 'shuffle' });
+    const perturbed = runMonteCarlo(result, {
+      iterations: 300,
+      method: 'shuffle',
+      slippagePerturbation: 1,
+      feePerturbation: 1,
+    });
+
+    expect(perturbed.finalEquity.stdDev).toBeGreaterThan(base.finalEquity.stdDev);
+  });
+
+  it('matches the recorded distribution', () => {
+    const monteCarlo = runMonteCarlo(result, { iterations: 250, seed: 2024 });
+
+    expect(round({
+      finalEquity: monteCarlo.finalEquity,
+      maxDrawdown: monteCarlo.maxDrawdown,
+      sharpeRatio: monteCarlo.sharpeRatio,
+      riskOfRuin: monteCarlo.riskOfRuin,
+    })).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * EdgePoly Strategies - Monte Carlo Analysis
+ *
+ * Resamples backtest trades to estimate the distribution of outcomes a
+ * strategy could have produced, rather than the single observed path.
+ */
+
+import type { BacktestResult, BacktestTrade } from '../types';
+import { createRandom, maxDrawdown, percentile, sharpeRatio } from '../utils/helpers';
+
+export interface MonteCarloConfig {
+  iterations?: number;
+  method?: 'bootstrap' | 'shuffle';
+  seed?: number;
+  slippagePerturbation?: number; // slippage cost scaled by U(1 - x, 1 + x)
+  feePerturbation?: number; // fees scaled by U(1 - x, 1 + x)
+  ruinThreshold?: number; // fractional loss of initial capital counted as ruin
+  confidenceLevel?: number; // e.g. 0.95 for a 95% interval
+}
+
+export interface DistributionStats {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  median: number;
+  percentiles: Record<number, number>;
+  confidenceInterval: { lower: number; upper: number };
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  method: 'bootstrap' | 'shuffle';
+  seed: number;
+  confidenceLevel: number;
+  finalEquity: DistributionStats;
+  totalReturn: DistributionStats;
+  maxDrawdown: DistributionStats;
+  sharpeRatio: DistributionStats;
+  riskOfRuin: number; // share of paths that hit the ruin threshold
+  observed: {
+    finalEquity: number;
+    maxDrawdown: number;
+    sharpeRatio: number;
+  };
+}
+
+const REPORTED_PERCENTILES = [5, 25, 50, 75, 95];
+
+/**
+ * Run a seeded Monte Carlo simulation over a backtest's closed trades
+ */
+export function runMonteCarlo(
+  result: BacktestResult,
+  config: MonteCarloConfig = {}
+): MonteCarloResult {
+  const iterations = config.iterations || 1000;
+  const method = config.method || 'bootstrap';
+  const seed = config.seed ?? 1;
+  const confidenceLevel = config.confidenceLevel || 0.95;
+  const ruinThreshold = config.ruinThreshold ?? 0.5;
+  const slippagePerturbation = config.slippagePerturbation || 0;
+  const feePerturbation = config.feePerturbation || 0;
+
+  const random = createRandom(seed);
+  const initialCapital = result.config.initialCapital;
+  const ruinLevel = initialCapital * (1 - ruinThreshold);
+  const trades = result.trades;
+
+  const finalEquities: number[] = [];
+  const totalReturns: number[] = [];
+  const drawdowns: number[] = [];
+  const sharpes: number[] = [];
+  let ruined = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    const sample = method === 'shuffle'
+      ? shuffle(trades, random)
+      : bootstrap(trades, random);
+
+    const path = simulatePath(
+      sample.map(trade => perturbPnl(trade, random, slippagePerturbation, feePerturbation)),
+      initialCapital
+    );
+
+    finalEquities.push(path.finalEquity);
+    totalReturns.push(initialCapital > 0 ? (path.finalEquity - initialCapital) / initialCapital : 0);
+    drawdowns.push(path.maxDrawdown);
+    sharpes.push(path.sharpeRatio);
+    if (path.minEquity <= ruinLevel) ruined++;
+  }
+
+  const observed = simulatePath(trades.map(t => t.pnl), initialCapital);
+
+  return {
+    iterations,
+    method,
+    seed,
+    confidenceLevel,
+    finalEquity: describe(finalEquities, confidenceLevel),
+    totalReturn: describe(totalReturns, confidenceLevel),
+    maxDrawdown: describe(drawdowns, confidenceLevel),
+    sharpeRatio: describe(sharpes, confidenceLevel),
+    riskOfRuin: iterations > 0 ? ruined / iterations : 0,
+    observed: {
+      finalEquity: observed.finalEquity,
+      maxDrawdown: observed.maxDrawdown,
+      sharpeRatio: observed.sharpeRatio,
+    },
+  };
+}
+
+function bootstrap<T>(items: T[], random: () => number): T[] {
+  return items.map(() => items[Math.floor(random() * items.length)]);
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Trade PnL with its slippage and fee costs rescaled by a random factor
+ */
+function perturbPnl(
+  trade: BacktestTrade,
+  random: () => number,
+  slippagePerturbation: number,
+  feePerturbation: number
+): number {
+  const slippageFactor = 1 + (random() * 2 - 1) * slippagePerturbation;
+  const feeFactor = 1 + (random() * 2 - 1) * feePerturbation;
+
+  return trade.pnl -
+    trade.slippage * (slippageFactor - 1) -
+    trade.fees * (feeFactor - 1);
+}
+
+function simulatePath(
+  pnls: number[],
+  initialCapital: number
+): { finalEquity: number; minEquity: number; maxDrawdown: number; sharpeRatio: number } {
+  const equity = [initialCapital];
+  const returns: number[] = [];
+  let minEquity = initialCapital;
+
+  for (const pnl of pnls) {
+    const previous = equity[equity.length - 1];
+    const next = previous + pnl;
+    equity.push(next);
+    returns.push(previous > 0 ? pnl / previous : 0);
+    minEquity = Math.min(minEquity, next);
+  }
+
+  return {
+    finalEquity: equity[equity.length - 1],
+    minEquity,
+    maxDrawdown: maxDrawdown(equity).percent,
+    sharpeRatio: sharpeRatio(returns),
+  };
+}
+
+function describe(values: number[], confidenceLevel: number): DistributionStats {
+  const finite = values.filter(v => Number.isFinite(v));
+  const count = finite.length;
+  const mean = count > 0 ? finite.reduce((a, b) => a + b, 0) / count : 0;
+  const variance = count > 0
+    ? finite.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / count
+    : 0;
+  const tail = ((1 - confidenceLevel) / 2) * 100;
+
+  const percentiles: Record<number, number> = {};
+  for (const p of REPORTED_PERCENTILES) {
+    percentiles[p] = percentile(finite, p);
+  }
+
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: count > 0 ? Math.min(...finite) : 0,
+    max: count > 0 ? Math.max(...finite) : 0,
+    median: percentile(finite, 50),
+    percentiles,
+    confidenceInterval: {
+      lower: percentile(finite, tail),
+      upper: percentile(finite, 100 - tail),
+    },
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * EdgePoly Strategies - Parameter Space
+ *
+ * Enumerates candidate values from strategy parameter definitions for
+ * optimization and sweeps.
+ */
+
+import type { ParameterDefinition, StrategyParameters } from '../types';
+
+export type ParameterSet = Record<string, unknown>;
+
+export interface ParameterSpaceOptions {
+  include?: string[]; // parameters to vary, default all
+  exclude?: string[];
+  maxValuesPerParameter?: number;
+  overrides?: Record<string, unknown[]>; // explicit candidate values
+}
+
+/**
+ * Candidate values for a single parameter, respecting min, max, step and options
+ */
+export function getParameterValues(
+  definition: ParameterDefinition,
+  maxValues: number = 10
+): unknown[] {
+  switch (definition.type) {
+    case 'boolean':
+      return [true, false];
+
+    case 'select':
+      return definition.options && definition.options.length > 0
+        ? [...definition.options]
+        : [definition.default];
+
+    case 'number': {
+      const { min, max } = definition;
+      if (min === undefined || max === undefined || max <= min) {
+        return [definition.default];
+      }
+
+      const isInteger = Number.isInteger(min) && Number.isInteger(max) &&
+        Number.isInteger(definition.default);
+
+      const values: number[] = [];
+      if (definition.step !== undefined && definition.step > 0) {
+        const { step } = definition;
+        const decimals = countDecimals(step);
+        for (let value = min; value <= max + step / 1e6; value += step) {
+          values.push(roundTo(value, decimals));
+        }
+      } else {
+        // Evenly spaced, snapped to integers where the parameter is integral
+        const count = Math.max(2, maxValues);
+        for (let i = 0; i < count; i++) {
+          const value = min + ((max - min) * i) / (count - 1);
+          const snapped = isInteger ? Math.round(value) : roundTo(value, 6);
+          if (values[values.length - 1] !== snapped) values.push(snapped);
+        }
+      }
+
+      return thin(values, maxValues);
+    }
+
+    default:
+      return [definition.default];
+  }
+}
+
+/**
+ * Candidate values for every varied parameter
+ */
+export function getParameterSpace(
+  parameters: StrategyParameters,
+  options: ParameterSpaceOptions = {}
+): Record<string, unknown[]> {
+  const space: Record<string, unknown[]> = {};
+
+  for (const [key, definition] of Object.entries(parameters)) {
+    if (options.include && !options.include.includes(key)) continue;
+    if (options.exclude?.includes(key)) continue;
+
+    space[key] = options.overrides?.[key] ??
+      getParameterValues(definition, options.maxValuesPerParameter);
+  }
+
+  return space;
+}
+
+/**
+ * Number of combinations in a parameter space
+ */
+export function countCombinations(space: Record<string, unknown[]>): number {
+  return Object.values(space).reduce((total, values) => total * values.length, 1);
+}
+
+/**
+ * Cartesian product of a parameter space
+ */
+export function buildParameterGrid(space: Record<string, unknown[]>): ParameterSet[] {
+  let grid: ParameterSet[] = [{}];
+
+  for (const [key, values] of Object.entries(space)) {
+    const next: ParameterSet[] = [];
+    for (const combination of grid) {
+      for (const value of values) {
+        next.push({ ...combination, [key]: value });
+      }
+    }
+    grid = next;
+  }
+
+  return grid;
+}
+
+/**
+ * Draw one random parameter set. Stepped and integer numbers stay on their
+ * grid; other numbers are sampled uniformly between min and max.
+ */
+export function sampleParameterSet(
+  parameters: StrategyParameters,
+  random: () => number,
+  options: ParameterSpaceOptions = {}
+): ParameterSet {
+  const sample: ParameterSet = {};
+  const pickFrom = (values: unknown[]) => values[Math.floor(random() * values.length)];
+
+  for (const [key, definition] of Object.entries(parameters)) {
+    if (options.include && !options.include.includes(key)) continue;
+    if (options.exclude?.includes(key)) continue;
+
+    const override = options.overrides?.[key];
+    if (override) {
+      sample[key] = pickFrom(override);
+      continue;
+    }
+
+    const { min, max, step } = definition;
+    if (definition.type !== 'number' || min === undefined || max === undefined || max <= min) {
+      sample[key] = pickFrom(getParameterValues(definition));
+    } else if (step !== undefined && step > 0) {
+      const steps = Math.floor((max - min) / step + 1e-9);
+      sample[key] = roundTo(min + Math.floor(random() * (steps + 1)) * step, countDecimals(step));
+    } else if (Number.isInteger(min) && Number.isInteger(max) && Number.isInteger(definition.default)) {
+      sample[key] = min + Math.floor(random() * (max - min + 1));
+    } else {
+      sample[key] = roundTo(min + random() * (max - min), 6);
+    }
+  }
+
+  return sample;
+}
+
+function countDecimals(value: number): number {
+  if (Number.isInteger(value)) return 0;
+  const text = value.toString();
+  const index = text.indexOf('.');
+  return index >= 0 ? Math.min(10, text.length - index - 1) : 0;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Evenly thin a sorted list, always keeping both endpoints
+ */
+function thin<T>(values: T[], maxValues: number): T[] {
+  if (values.length <= maxValues) return values;
+  if (maxValues < 2) return values.slice(0, 1);
+
+  const result: T[] = [];
+  const stride = (values.length - 1) / (maxValues - 1);
+  for (let i = 0; i < maxValues; i++) {
+    result.push(values[Math.round(i * stride)]);
+  }
+  return result;
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import type { EquityPoint } from '../types';
+import { BacktestEngine } from './engine';
+import {
+  calculateAllocationWeights,
+  combineEquityCurves,
+  planRebalance,
+  timeWeightedCurve,
+} from './portfolio';
+import {
+  MemoryMarketDataProvider,
+  ScriptedStrategy,
+  TEST_START,
+  binaryMarket,
+  hour,
+  round,
+} from '../test-helpers';
+
+function point(i: number, equity: number, cash: number = equity): EquityPoint {
+  return {
+    timestamp: hour(i),
+    equity,
+    realizedEquity: equity,
+    unrealizedPnl: 0,
+    cash,
+    grossExposure: equity - cash,
+    drawdown: 0,
+    drawdownPercent: 0,
+  };
+}
+
+describe('calculateAllocationWeights', () => {
+  it('normalizes fixed weights and lifts them to the floor', () => {
+    expect(calculateAllocationWeights('fixed', [[], []], [1, 3])).toEqual([0.25, 0.75]);
+    expect(round(calculateAllocationWeights('fixed', [[], []], [1, 3], 0.1))).toEqual([0.3, 0.7]);
+    expect(() => calculateAllocationWeights('fixed', [[], []], [1, 1], 0.6))
+      .toThrow('minWeight 0.6 is too high for 2 sleeves');
+  });
+
+  it('weights by positive trailing return', () => {
+    expect(round(calculateAllocationWeights('performance', [[0.1], [-0.1], [0.3]], [1, 1, 1])))
+      .toEqual([0.25, 0, 0.75]);
+    expect(calculateAllocationWeights('performance', [[-0.1], [-0.2]], [1, 3])).toEqual([0.25, 0.75]);
+  });
+
+  it('weights by inverse volatility, leaving flat sleeves at their base weight', () => {
+    const weights = calculateAllocationWeights('inverse_volatility', [
+      [0.01, -0.01],
+      [0.02, -0.02],
+      [0, 0],
+    ], [1, 1, 1]);
+
+    expect(round(weights)).toEqual(round([4 / 9, 2 / 9, 1 / 3]));
+  });
+
+  it('equalizes risk contributions', () => {
+    // Uncorrelated sleeves, where risk parity reduces to inverse volatility
+    const weights = calculateAllocationWeights('risk_parity', [
+      [0.01, -0.01, 0.01, -0.01],
+      [0.02, 0.02, -0.02, -0.02],
+    ], [1, 1]);
+
+    expect(weights[0]).toBeCloseTo(2 / 3, 10);
+    expect(weights[1]).toBeCloseTo(1 / 3, 10);
+  });
+});
+
+describe('planRebalance', () => {
+  it('moves free cash towards the target weights', () => {
+    expect(planRebalance([600, 400], [100, 400], [0.5, 0.5])).toEqual([-100, 100]);
+  });
+
+  it('moves only what over-weight sleeves hold in cash', () => {
+    expect(planRebalance([600, 400], [50, 400], [0.5, 0.5])).toEqual([-50, 50]);
+    expect(planRebalance([600, 400], [0, 400], [0.5, 0.5])).toEqual([0, 0]);
+  });
+});
+
+describe('equity curves', () => {
+  it('restates a sleeve curve on its time-weighted NAV', () => {
+    // 100 grows to 110, then 100 is moved in without any return
+    const curve = timeWeightedCurve(
+      [point(0, 100), point(1, 110, 55), point(2, 210, 155)],
+      [1, 1.1, 1.1],
+      100
+    );
+
+    expect(round(curve.map(p => [p.equity, p.cash, p.grossExposure]))).toEqual(round([
+      [100, 100, 0],
+      [110, 55, 55],
+      [110, 155 * 110 / 210, 55 * 110 / 210],
+    ]));
+    // A sleeve without capital stays flat in cash
+    expect(timeWeightedCurve([point(0, 0)], [1.2], 50)[0])
+      .toMatchObject({ equity: 60, cash: 60, grossExposure: 0 });
+  });
+
+  it('sums sleeve curves and recomputes drawdowns', () => {
+    const combined = combineEquityCurves([
+      [point(0, 500), point(1, 450)],
+      [point(0, 500), point(1, 500)],
+    ], 1000);
+
+    expect(combined.map(p => [p.equity, p.cash, p.drawdown, p.drawdownPercent])).toEqual([
+      [1000, 1000, 0, 0],
+      [950, 950, 50, 0.05],
+    ]);
+  });
+});
+
+describe('BacktestEngine.runPortfolio', () => {
+  const provider = new MemoryMarketDataProvider({ a: binaryMarket('a', [0.5, 0.75]) });
+  const config = {
+    strategyId: 'portfolio',
+    parameters: {},
+    startDate: TEST_START,
+    endDate: hour(24),
+    initialCapital: 1000,
+    markets: ['a'],
+  };
+
+  it('rebalances free cash and reports time-weighted sleeve returns', async () => {
+    const engine = new BacktestEngine(provider, { fees: 0, slippage: 0 });
+    const trader = new ScriptedStrategy([{ at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy' }]);
+    const result = await engine.runPortfolio([
+      { name: 'trader', strategy: trader },
+      { name: 'idle', strategy: new ScriptedStrategy([]) },
+    ], config, { rebalanceInterval: '1h' });
+
+    // The trader's position gains 50; 25 of its free cash moves to the idle sleeve
+    expect(result.allocations).toEqual([
+      { timestamp: TEST_START, weights: { trader: 0.5, idle: 0.5 } },
+      { timestamp: hour(1), weights: { trader: 0.5, idle: 0.5 } },
+    ]);
+    const [traded, idle] = result.sleeves;
+    expect(traded.result.equityCurve.map(p => p.equity)).toEqual([500, 550, 550]);
+    expect(traded.result.summary.totalReturn).toBeCloseTo(0.1, 12);
+    expect(idle.result.equityCurve.map(p => p.equity)).toEqual([500, 500, 500]);
+    expect(idle.result.summary.totalReturn).toBe(0);
+
+    expect(result.combined.equityCurve.map(p => [p.equity, p.cash]))
+      .toEqual([[1000, 900], [1050, 900], [1050, 1050]]);
+    expect(result.combined.trades.map(trade => [trade.pnl, trade.signal.metadata?.sleeve]))
+      .toEqual([[50, 'trader']]);
+  });
+
+  it('rejects ambiguous sleeves', async () => {
+    const engine = new BacktestEngine(provider);
+    const strategy = new ScriptedStrategy([]);
+
+    await expect(engine.runPortfolio([], config)).rejects.toThrow('A portfolio needs at least one sleeve');
+    const unnamed = [{ strategy: new ScriptedStrategy([]) }, { strategy: new ScriptedStrategy([]) }];
+    await expect(engine.runPortfolio(unnamed, config))
+      .rejects.toThrow("Duplicate sleeve name 'scripted'");
+    await expect(engine.runPortfolio([{ name: 'a', strategy }, { name: 'b', strategy }], config))
+      .rejects.toThrow('Each sleeve needs its own strategy instance');
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * EdgePoly Strategies - Portfolio Allocation
+ *
+ * Capital allocation rules for backtesting several strategies against one
+ * capital pool, each trading in its own sleeve.
+ */
+
+import type {
+  IStrategy,
+  BacktestResult,
+  EquityPoint,
+  StrategyParameters,
+} from '../types';
+
+export type AllocationMethod =
+  | 'fixed' // sleeve weights as given
+  | 'inverse_volatility' // weight by 1 / volatility of sleeve returns
+  | 'risk_parity' // equal contribution to portfolio variance
+  | 'performance'; // weight by positive trailing return
+
+export interface PortfolioSleeve {
+  strategy: IStrategy; // one instance per sleeve
+  name?: string; // default: strategy id
+  weight?: number; // fixed target, or starting weight for other methods (default: 1)
+  parameters?: StrategyParameters; // merged over the config's parameters
+}
+
+export interface AllocationConfig {
+  method?: AllocationMethod; // default: fixed
+  rebalanceInterval?: number | string; // e.g. '1d', '7d'; default: never rebalance
+  lookbackPeriods?: number; // latest per-tick sleeve returns used to set weights (default: 30)
+  minWeight?: number; // floor for every sleeve's weight (default: 0)
+}
+
+export interface SleeveResult {
+  name: string;
+  strategyId: string;
+  result: BacktestResult;
+}
+
+export interface AllocationSnapshot {
+  timestamp: Date;
+  weights: Record<string, number>; // sleeve name -> target weight
+}
+
+export interface PortfolioBacktestResult {
+  combined: BacktestResult;
+  sleeves: SleeveResult[];
+  allocations: AllocationSnapshot[]; // at the start and every rebalance
+}
+
+/**
+ * Target sleeve weights from each sleeve's recent per-period returns.
+ * For the volatility-based methods, sleeves without return variation keep
+ * their base weight and the rule shares out the remainder. Every weight is
+ * lifted to at least minWeight.
+ */
+export function calculateAllocationWeights(
+  method: AllocationMethod,
+  sleeveReturns: number[][],
+  baseWeights: number[],
+  minWeight: number = 0
+): number[] {
+  if (minWeight * baseWeights.length > 1) {
+    throw new Error(`minWeight ${minWeight} is too high for ${baseWeights.length} sleeves`);
+  }
+  const withFloor = (weights: number[]) =>
+    weights.map(w => minWeight + (1 - minWeight * weights.length) * w);
+  const base = normalizeWeights(baseWeights);
+  if (method === 'fixed') return withFloor(base);
+
+  if (method === 'performance') {
+    const trailing = sleeveReturns.map(returns =>
+      returns.reduce((growth, r) => growth * (1 + r), 1) - 1
+    );
+    const positive = trailing.map(r => Math.max(0, r));
+    return withFloor(positive.some(r => r > 0) ? normalizeWeights(positive) : base);
+  }
+
+  const active = sleeveReturns
+    .map((returns, i) => (returns.length >= 2 && standardDeviation(returns) > 0 ? i : -1))
+    .filter(i => i >= 0);
+  if (active.length === 0) return withFloor(base);
+
+  const activeShare = active.reduce((sum, i) => sum + base[i], 0);
+  const activeWeights = method === 'inverse_volatility'
+    ? normalizeWeights(active.map(i => 1 / standardDeviation(sleeveReturns[i])))
+    : riskParityWeights(active.map(i => sleeveReturns[i]));
+
+  const weights = [...base];
+  active.forEach((sleeve, k) => {
+    weights[sleeve] = activeWeights[k] * activeShare;
+  });
+  return withFloor(weights);
+}
+
+/**
+ * Cash to move into (positive) or out of (negative) each sleeve to approach
+ * the target weights. Capital locked in open positions stays put, so a
+ * sleeve can give up at most its free cash and the transfers always net to
+ * zero.
+ */
+export function planRebalance(
+  equities: number[],
+  cash: number[],
+  weights: number[]
+): number[] {
+  const total = equities.reduce((sum, equity) => sum + equity, 0);
+  const deltas = equities.map((equity, i) => weights[i] * total - equity);
+
+  const releases = deltas.map((delta, i) => (delta < 0 ? Math.min(Math.max(0, cash[i]), -delta) : 0));
+  const needs = deltas.map(delta => Math.max(0, delta));
+  const available = releases.reduce((sum, r) => sum + r, 0);
+  const wanted = needs.reduce((sum, n) => sum + n, 0);
+  const moved = Math.min(available, wanted);
+  if (moved <= 0) return equities.map(() => 0);
+
+  return deltas.map((_, i) =>
+    needs[i] > 0 ? needs[i] * (moved / wanted) : -releases[i] * (moved / available)
+  );
+}
+
+/**
+ * Sum sleeve equity curves recorded on the same timestamps
+ */
+export function combineEquityCurves(curves: EquityPoint[][], initialCapital: number): EquityPoint[] {
+  const points = (curves[0] || []).map((point, i) => {
+    const combined: EquityPoint = {
+      timestamp: point.timestamp,
+      equity: 0,
+      realizedEquity: 0,
+      unrealizedPnl: 0,
+      cash: 0,
+      grossExposure: 0,
+      drawdown: 0,
+      drawdownPercent: 0,
+    };
+    for (const curve of curves) {
+      combined.equity += curve[i].equity;
+      combined.realizedEquity += curve[i].realizedEquity;
+      combined.unrealizedPnl += curve[i].unrealizedPnl;
+      combined.cash += curve[i].cash;
+      combined.grossExposure += curve[i].grossExposure;
+    }
+    return combined;
+  });
+
+  return withDrawdowns(points, initialCapital);
+}
+
+/**
+ * Restate a sleeve's equity curve as its initial capital grown by the
+ * time-weighted NAV index at each point, so capital moved in or out at
+ * rebalances does not count as return. A sleeve holding no capital stays
+ * flat in cash.
+ */
+export function timeWeightedCurve(
+  curve: EquityPoint[],
+  navs: number[],
+  initialCapital: number
+): EquityPoint[] {
+  return withDrawdowns(curve.map((point, i) => {
+    const equity = initialCapital * navs[i];
+    if (!(point.equity > 0)) {
+      return { ...point, equity, realizedEquity: equity, unrealizedPnl: 0, cash: equity, grossExposure: 0 };
+    }
+
+    const scale = equity / point.equity;
+    return {
+      ...point,
+      equity,
+      realizedEquity: point.realizedEquity * scale,
+      unrealizedPnl: point.unrealizedPnl * scale,
+      cash: point.cash * scale,
+      grossExposure: point.grossExposure * scale,
+    };
+  }), initialCapital);
+}
+
+export function normalizeWeights(weights: number[]): number[] {
+  const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  return total > 0
+    ? weights.map(w => Math.max(0, w) / total)
+    : weights.map(() => 1 / weights.length);
+}
+
+/**
+ * Equal risk contribution weights from the sample covariance of the
+ * returns, by fixed-point iteration from inverse-volatility weights
+ */
+function riskParityWeights(returns: number[][]): number[] {
+  const length = Math.min(...returns.map(r => r.length));
+  const series = returns.map(r => r.slice(r.length - length));
+  const means = series.map(r => r.reduce((a, b) => a + b, 0) / length);
+  const covariance = series.map((a, i) =>
+    series.map((b, j) =>
+      a.reduce((sum, value, t) => sum + (value - means[i]) * (b[t] - means[j]), 0) / length
+    )
+  );
+
+  let weights = normalizeWeights(covariance.map((row, i) => 1 / Math.sqrt(row[i])));
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const marginal = covariance.map(row => row.reduce((sum, c, j) => sum + c * weights[j], 0));
+    const contributions = weights.map((w, i) => w * marginal[i]);
+    const target = contributions.reduce((a, b) => a + b, 0) / weights.length;
+    if (!(target > 0) || contributions.some(c => !(c > 0))) break;
+
+    weights = normalizeWeights(weights.map((w, i) => w * Math.sqrt(target / contributions[i])));
+  }
+
+  return weights;
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / values.length);
+}
+
+function withDrawdowns(points: EquityPoint[], initialCapital: number): EquityPoint[] {
+  let peak = initialCapital;
+  for (const point of points) {
+    peak = Math.max(peak, point.equity);
+    point.drawdown = peak - point.equity;
+    point.drawdownPercent = peak > 0 ? point.drawdown / peak : 0;
+  }
+  return points;
+}
@@ -0,0 +1,193 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { MarketSnapshot } from '../types';
+import {
+  CsvMarketDataProvider,
+  JsonMarketDataProvider,
+  JsonlMarketDataProvider,
+  createFileProvider,
+} from './providers';
+import type { FileMarketDataProvider } from './providers';
+
+const START = new Date('2024-01-01T00:00:00Z');
+const END = new Date('2024-12-31T00:00:00Z');
+
+const CSV = [
+  'timestamp,marketId,question,volume,volume24h,liquidity,endDate,outcomeId,outcomeName,price',
+  '2024-01-01T00:00:00Z,rain,"Will it rain, ""today""?",100,10,50,2024-02-01T00:00:00Z,yes,Yes,0.40',
+  '2024-01-01T00:00:00Z,rain,"Will it rain, ""today""?",100,10,50,2024-02-01T00:00:00Z,no,No,0.60',
+  '2024-01-01T12:00:00Z,rain,"Will it rain, ""today""?",110,10,50,2024-02-01T00:00:00Z,yes,Yes,0.45',
+  '2024-01-01T12:00:00Z,rain,"Will it rain, ""today""?",110,10,50,2024-02-01T00:00:00Z,no,No,0.55',
+  '2024-01-02T00:00:00Z,rain,"Will it rain, ""today""?",120,10,50,2024-02-01T00:00:00Z,yes,Yes,0.50',
+  '2024-01-02T00:00:00Z,rain,"Will it rain, ""today""?",120,10,50,2024-02-01T00:00:00Z,no,No,0.50',
+  '',
+].join('\r\n');
+
+let dir: string;
+
+async function write(name: string, content: string): Promise<string> {
+  const path = join(dir, name);
+  await writeFile(path, content);
+  return path;
+}
+
+async function collect(provider: FileMarketDataProvider, marketId: string): Promise<MarketSnapshot[]> {
+  const snapshots: MarketSnapshot[] = [];
+  for await (const snapshot of provider.streamHistoricalData(marketId, START, END)) {
+    snapshots.push(snapshot);
+  }
+  return snapshots;
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'edgepoly-providers-'));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('CsvMarketDataProvider', () => {
+  it('groups outcome rows into snapshots and parses quoted fields', async () => {
+    const provider = new CsvMarketDataProvider(await write('markets.csv', CSV));
+    const snapshots = await provider.getHistoricalData('rain', START, END);
+
+    expect(snapshots).toHaveLength(3);
+    expect(snapshots[0]).toMatchObject({
+      id: 'rain',
+      question: 'Will it rain, "today"?',
+      volume: 100,
+      resolved: false,
+      endDate: new Date('2024-02-01T00:00:00Z'),
+      timestamp: START,
+    });
+    expect(snapshots[0].outcomes.map(outcome => [outcome.id, outcome.name, outcome.price]))
+      .toEqual([['yes', 'Yes', 0.4], ['no', 'No', 0.6]]);
+  });
+
+  it('derives previousPrice and priceChange24h from earlier rows', async () => {
+    const provider = new CsvMarketDataProvider(await write('derived.csv', CSV));
+    const yes = (await provider.getHistoricalData('rain', START, END)).map(snapshot => snapshot.outcomes[0]);
+
+    expect(yes.map(outcome => outcome.previousPrice)).toEqual([0.4, 0.4, 0.45]);
+    // No change until a full day of history exists
+    expect(yes[0].priceChange24h).toBe(0);
+    expect(yes[1].priceChange24h).toBe(0);
+    expect(yes[2].priceChange24h).toBeCloseTo(0.1, 12);
+  });
+
+  it('streams the same snapshots it loads', async () => {
+    const path = await write('stream.csv', CSV);
+    const streamed = await collect(new CsvMarketDataProvider(path), 'rain');
+
+    expect(streamed).toEqual(await new CsvMarketDataProvider(path).getHistoricalData('rain', START, END));
+  });
+
+  it('reports missing columns and invalid rows', async () => {
+    const missing = new CsvMarketDataProvider(await write('missing.csv', 'timestamp,marketId\n'));
+    await expect(missing.getHistoricalData('rain', START, END))
+      .rejects.toThrow('missing required column(s) volume, volume24h, liquidity, endDate, outcomeId, price');
+
+    const invalid = new CsvMarketDataProvider(await write('invalid.csv', CSV.replace('0.40', '1.40')));
+    await expect(invalid.getHistoricalData('rain', START, END)).rejects.toThrow('invalid.csv row 1: price:');
+  });
+});
+
+describe('JsonMarketDataProvider', () => {
+  it('expands columnar series into snapshots', async () => {
+    const path = await write('columnar.json', JSON.stringify({
+      markets: [{
+        id: 'rain',
+        question: 'Rain?',
+        endDate: '2024-02-01T00:00:00Z',
+        resolutionOutcome: 'Yes',
+        timestamp: ['2024-01-01T00:00:00Z', '2024-01-01T01:00:00Z'],
+        volume: [100, 110],
+        volume24h: [10, 10],
+        liquidity: [50, 50],
+        resolved: [false, true],
+        outcomes: [
+          { id: 'yes', name: 'Yes', price: [0.4, 1] },
+          { id: 'no', name: 'No', price: [0.6, 0] },
+        ],
+      }],
+    }));
+    const snapshots = await new JsonMarketDataProvider(path).getHistoricalData('rain', START, END);
+
+    expect(snapshots.map(snapshot => [snapshot.timestamp, snapshot.volume, snapshot.resolved])).toEqual([
+      [START, 100, false],
+      [new Date('2024-01-01T01:00:00Z'), 110, true],
+    ]);
+    expect(snapshots[1].outcomes[0]).toEqual({
+      id: 'yes',
+      name: 'Yes',
+      price: 1,
+      previousPrice: 0.4,
+      priceChange24h: 0,
+      volume24h: 0,
+    });
+    expect(snapshots[1].resolutionOutcome).toBe('Yes');
+  });
+
+  it('rejects series of different lengths', async () => {
+    const path = await write('uneven.json', JSON.stringify({
+      markets: [{
+        id: 'rain',
+        question: 'Rain?',
+        endDate: '2024-02-01T00:00:00Z',
+        timestamp: ['2024-01-01T00:00:00Z', '2024-01-01T01:00:00Z'],
+        volume: [100],
+        volume24h: [10, 10],
+        liquidity: [50, 50],
+        outcomes: [{ id: 'yes', name: 'Yes', price: [0.4, 0.5] }],
+      }],
+    }));
+
+    await expect(new JsonMarketDataProvider(path).getHistoricalData('rain', START, END))
+      .rejects.toThrow("every series in market 'rain' must have 2 entries");
+  });
+});
+
+describe('JsonlMarketDataProvider', () => {
+  const line = (time: string, price: number) => JSON.stringify({
+    id: 'rain',
+    question: 'Rain?',
+    outcomes: [{ id: 'yes', name: 'Yes', price, previousPrice: price, priceChange24h: 0, volume24h: 0 }],
+    volume: 100,
+    volume24h: 10,
+    liquidity: 50,
+    resolved: false,
+    endDate: '2024-02-01T00:00:00Z',
+    timestamp: time,
+  });
+
+  it('reads one snapshot per line and streams the same', async () => {
+    const path = await write('lines.jsonl', [
+      line('2024-01-01T00:00:00Z', 0.4),
+      '',
+      line('2024-01-01T01:00:00Z', 0.5),
+    ].join('\n'));
+    const loaded = await new JsonlMarketDataProvider(path).getHistoricalData('rain', START, END);
+
+    expect(loaded.map(snapshot => snapshot.outcomes[0].price)).toEqual([0.4, 0.5]);
+    expect(await collect(new JsonlMarketDataProvider(path), 'rain')).toEqual(loaded);
+  });
+
+  it('locates invalid lines', async () => {
+    const path = await write('bad.jsonl', [line('2024-01-01T00:00:00Z', 0.4), '{'].join('\n'));
+
+    await expect(new JsonlMarketDataProvider(path).getHistoricalData('rain', START, END))
+      .rejects.toThrow('bad.jsonl:2:');
+  });
+});
+
+describe('createFileProvider', () => {
+  it('picks the provider from the extension', () => {
+    expect(createFileProvider('a.csv')).toBeInstanceOf(CsvMarketDataProvider);
+    expect(createFileProvider('a.ndjson')).toBeInstanceOf(JsonlMarketDataProvider);
+    expect(createFileProvider('a.JSON')).toBeInstanceOf(JsonMarketDataProvider);
+    expect(() => createFileProvider('a.parquet')).toThrow("Unsupported data file 'a.parquet'");
+  });
+});
@@ -0,0 +1,754 @@
+/**
+ * EdgePoly Strategies - File Data Providers
+ *
+ * MarketDataProvider implementations that load MarketSnapshot histories
+ * from CSV, JSON Lines and JSON files on disk.
+ */
+
+import { createReadStream } from 'node:fs';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+import { createInterface } from 'node:readline';
+import { z } from 'zod';
+import type { MarketSnapshot, OutcomeSnapshot } from '../types';
+import type { MarketDataProvider } from './engine';
+import { SnapshotFanOut } from './stream';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const price = z.number().finite().min(0).max(1);
+const amount = z.number().finite().nonnegative();
+
+export const outcomeSnapshotSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  price,
+  previousPrice: price,
+  priceChange24h: z.number().finite(),
+  volume24h: amount,
+});
+
+export const marketSnapshotSchema = z.object({
+  id: z.string().min(1),
+  question: z.string(),
+  outcomes: z.array(outcomeSnapshotSchema).min(1),
+  volume: amount,
+  volume24h: amount,
+  liquidity: amount,
+  resolved: z.boolean(),
+  resolutionOutcome: z.string().optional(),
+  endDate: z.coerce.date(),
+  timestamp: z.coerce.date(),
+});
+
+const csvString = z.string().trim();
+const csvNumber = csvString.min(1).pipe(z.coerce.number().finite());
+const csvOptionalNumber = csvString
+  .transform(value => (value === '' ? undefined : value))
+  .pipe(z.coerce.number().finite().optional());
+const csvBoolean = csvString
+  .toLowerCase()
+  .pipe(z.enum(['', 'true', 'false', '1', '0']))
+  .transform(value => value === 'true' || value === '1');
+
+const csvRowSchema = z.object({
+  timestamp: csvString.pipe(z.coerce.date()),
+  marketId: csvString.min(1),
+  question: csvString,
+  volume: csvNumber.pipe(amount),
+  volume24h: csvNumber.pipe(amount),
+  liquidity: csvNumber.pipe(amount),
+  resolved: csvBoolean,
+  resolutionOutcome: csvString.transform(value => value || undefined),
+  endDate: csvString.pipe(z.coerce.date()),
+  outcomeId: csvString.min(1),
+  outcomeName: csvString,
+  price: csvNumber.pipe(price),
+  previousPrice: csvOptionalNumber.pipe(price.optional()),
+  priceChange24h: csvOptionalNumber,
+  outcomeVolume24h: csvOptionalNumber.pipe(amount.optional()),
+});
+
+const REQUIRED_CSV_COLUMNS = [
+  'timestamp',
+  'marketId',
+  'volume',
+  'volume24h',
+  'liquidity',
+  'endDate',
+  'outcomeId',
+  'price',
+];
+
+const series = <T extends z.ZodTypeAny>(item: T) => z.array(item).min(1);
+
+const columnarMarketSchema = z.object({
+  id: z.string().min(1),
+  question: z.string(),
+  endDate: z.coerce.date(),
+  resolutionOutcome: z.string().optional(),
+  timestamp: series(z.coerce.date()),
+  volume: series(amount),
+  volume24h: series(amount),
+  liquidity: series(amount),
+  resolved: series(z.boolean()).optional(),
+  outcomes: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    price: series(price),
+    previousPrice: series(price).optional(),
+    priceChange24h: series(z.number().finite()).optional(),
+    volume24h: series(amount).optional(),
+  })).min(1),
+});
+
+const columnarFileSchema = z.object({
+  markets: z.array(columnarMarketSchema),
+});
+
+type PartialOutcome = Omit<OutcomeSnapshot, 'previousPrice' | 'priceChange24h'> & {
+  previousPrice?: number;
+  priceChange24h?: number;
+};
+
+type PartialSnapshot = Omit<MarketSnapshot, 'outcomes'> & {
+  outcomes: PartialOutcome[];
+};
+
+type CsvRow = z.output<typeof csvRowSchema>;
+
+interface FileSummary {
+  markets: string[];
+  ends: Map<string, number>; // last snapshot time of each market
+  start: number;
+  end: number;
+  ordered: boolean; // every market's snapshots are in ascending time order
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Base class for providers that read a whole file once and serve range
+ * queries from memory. streamHistoricalData instead reads the file
+ * incrementally, for histories too large to hold in memory.
+ */
+export abstract class FileMarketDataProvider implements MarketDataProvider {
+  protected readonly path: string;
+  private loading?: Promise<Map<string, MarketSnapshot[]>>;
+  private scanning?: Promise<FileSummary>;
+  private pass?: SnapshotFanOut;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async getHistoricalData(
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<MarketSnapshot[]> {
+    const markets = await this.load();
+    const start = startDate.getTime();
+    const end = endDate.getTime();
+
+    return (markets.get(marketId) || []).filter(snapshot => {
+      const time = snapshot.timestamp.getTime();
+      return time >= start && time <= end;
+    });
+  }
+
+  /**
+   * Snapshots of one market read from the file as they are consumed.
+   * Streams opened together, as the engine opens one per market, share a
+   * single read of the file; memory stays bounded when its rows are in time
+   * order across markets. Files whose markets are not in ascending time
+   * order, and files already loaded by getHistoricalData, are served from
+   * memory instead.
+   */
+  streamHistoricalData(
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): AsyncGenerator<MarketSnapshot> {
+    if (!this.pass || this.pass.started) {
+      this.pass = new SnapshotFanOut(markets => this.readMarkets(markets));
+    }
+    return this.streamMarket(this.pass.open(marketId), marketId, startDate, endDate);
+  }
+
+  /**
+   * The file's path, modification time and size
+   */
+  async cacheKey(): Promise<string> {
+    const { mtimeMs, size } = await stat(this.path);
+    return `${resolve(this.path)}:${mtimeMs}:${size}`;
+  }
+
+  /**
+   * Ids of every market in the file
+   */
+  async getMarketIds(): Promise<string[]> {
+    return [...(await this.summarize()).markets];
+  }
+
+  /**
+   * First and last snapshot time across all markets
+   */
+  async getDateRange(): Promise<{ start: Date; end: Date } | undefined> {
+    const { start, end } = await this.summarize();
+    return Number.isFinite(start) ? { start: new Date(start), end: new Date(end) } : undefined;
+  }
+
+  protected abstract parse(content: string): MarketSnapshot[];
+
+  /**
+   * Snapshots of the given markets, or of every market, in file order.
+   * Formats that can be read incrementally override this; the default
+   * parses the whole file.
+   */
+  protected async *read(marketIds?: ReadonlySet<string>): AsyncGenerator<MarketSnapshot> {
+    for (const [id, snapshots] of await this.load()) {
+      if (!marketIds || marketIds.has(id)) yield* snapshots;
+    }
+  }
+
+  /**
+   * One market's share of the pass, ending at its last snapshot so it never
+   * reads ahead for data that is not coming
+   */
+  private async *streamMarket(
+    { stream, close }: ReturnType<SnapshotFanOut['open']>,
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): AsyncGenerator<MarketSnapshot> {
+    try {
+      const { ends, ordered } = await this.summarize();
+      const last = ends.get(marketId);
+      if (last === undefined) return;
+
+      const start = startDate.getTime();
+      const end = endDate.getTime();
+
+      for await (const snapshot of stream) {
+        const time = snapshot.timestamp.getTime();
+        if (time > end) break;
+        if (time >= start) yield snapshot;
+        // In an ordered file nothing of the market follows its last time
+        if (ordered && time >= last) break;
+      }
+    } finally {
+      close();
+    }
+  }
+
+  /**
+   * Source of a streaming pass: the file itself when its markets are in
+   * time order, otherwise the loaded snapshots
+   */
+  private async *readMarkets(marketIds: ReadonlySet<string>): AsyncGenerator<MarketSnapshot> {
+    if (this.loading || !(await this.summarize()).ordered) {
+      for (const [id, snapshots] of await this.load()) {
+        if (marketIds.has(id)) yield* snapshots;
+      }
+      return;
+    }
+    yield* this.read(marketIds);
+  }
+
+  private load(): Promise<Map<string, MarketSnapshot[]>> {
+    if (!this.loading) {
+      this.loading = readFile(this.path, 'utf8').then(content =>
+        groupByMarket(this.parse(content))
+      );
+      // Allow a retry after a failed read
+      this.loading.catch(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Market ids, time range and ordering, from memory when the file is
+   * loaded and otherwise from a pass over the file that keeps no
+   * snapshots. Markets are listed by their first snapshot time, as when
+   * loaded.
+   */
+  private summarize(): Promise<FileSummary> {
+    if (!this.scanning) {
+      this.scanning = (async () => {
+        const firstTimes = new Map<string, number>();
+        const lastTimes = new Map<string, number>();
+        let start = Infinity;
+        let end = -Infinity;
+        let ordered = true;
+
+        const loaded = this.loading;
+        const snapshots = loaded ? Array.from((await loaded).values()).flat() : this.read();
+        for await (const snapshot of snapshots) {
+          const time = snapshot.timestamp.getTime();
+          firstTimes.set(snapshot.id, Math.min(firstTimes.get(snapshot.id) ?? Infinity, time));
+          const last = lastTimes.get(snapshot.id) ?? -Infinity;
+          ordered &&= time > last;
+          lastTimes.set(snapshot.id, Math.max(last, time));
+          start = Math.min(start, time);
+          end = Math.max(end, time);
+        }
+
+        const markets = Array.from(firstTimes.keys());
+        if (!loaded) {
+          markets.sort((a, b) => firstTimes.get(a)! - firstTimes.get(b)!);
+        }
+        return { markets, ends: lastTimes, start, end, ordered };
+      })();
+      // Allow a retry after a failed read
+      this.scanning.catch(() => {
+        this.scanning = undefined;
+      });
+    }
+    return this.scanning;
+  }
+}
+
+/**
+ * Long-format CSV with one row per outcome per snapshot. Required columns:
+ * timestamp, marketId, volume, volume24h, liquidity, endDate, outcomeId,
+ * price. Optional: question, resolved, resolutionOutcome, outcomeName,
+ * previousPrice, priceChange24h, outcomeVolume24h. Missing previousPrice
+ * and priceChange24h are derived from earlier rows.
+ */
+export class CsvMarketDataProvider extends FileMarketDataProvider {
+  protected parse(content: string): MarketSnapshot[] {
+    const parseRow = this.rowParser();
+    const snapshots = new Map<string, PartialSnapshot>();
+
+    for (const cells of parseCSV(content)) {
+      const row = parseRow(cells);
+      if (!row) continue;
+
+      const key = `${row.marketId}:${row.timestamp.getTime()}`;
+      let snapshot = snapshots.get(key);
+      if (!snapshot) {
+        snapshot = toPartialSnapshot(row);
+        snapshots.set(key, snapshot);
+      }
+      snapshot.outcomes.push(toPartialOutcome(row));
+    }
+
+    return completeSnapshots(Array.from(snapshots.values()));
+  }
+
+  /**
+   * Rows sharing a market and timestamp form one snapshot, emitted once the
+   * market's next timestamp is reached, or once the file moves past its
+   * timestamp so a market's last snapshot is not held until the end
+   */
+  protected async *read(marketIds?: ReadonlySet<string>): AsyncGenerator<MarketSnapshot> {
+    const parseRow = this.rowParser();
+    const complete = snapshotCompleter();
+    const pending = new Map<string, PartialSnapshot>();
+    let latest = -Infinity;
+
+    for await (const cells of readCSV(this.path)) {
+      const row = parseRow(cells);
+      if (!row || (marketIds && !marketIds.has(row.marketId))) continue;
+
+      const time = row.timestamp.getTime();
+      if (time > latest) {
+        latest = time;
+        for (const [id, snapshot] of pending) {
+          if (snapshot.timestamp.getTime() < time) {
+            pending.delete(id);
+            yield complete(snapshot);
+          }
+        }
+      }
+
+      const snapshot = pending.get(row.marketId);
+      if (snapshot?.timestamp.getTime() === time) {
+        snapshot.outcomes.push(toPartialOutcome(row));
+        continue;
+      }
+      if (snapshot) yield complete(snapshot);
+
+      const next = toPartialSnapshot(row);
+      next.outcomes.push(toPartialOutcome(row));
+      pending.set(row.marketId, next);
+    }
+
+    for (const snapshot of pending.values()) yield complete(snapshot);
+  }
+
+  /**
+   * Validates the header on the first row and converts each later row,
+   * skipping blank lines
+   */
+  private rowParser(): (cells: string[]) => CsvRow | undefined {
+    let columns: string[] | undefined;
+    let index = 0;
+
+    return cells => {
+      if (!columns) {
+        columns = cells.map(column => column.trim());
+        const missing = REQUIRED_CSV_COLUMNS.filter(column => !columns!.includes(column));
+        if (missing.length > 0) {
+          throw new Error(`${this.path}: missing required column(s) ${missing.join(', ')}`);
+        }
+        return undefined;
+      }
+
+      index++;
+      if (cells.length === 1 && cells[0].trim() === '') return undefined;
+
+      // Optional columns absent from the header read as empty cells
+      const record: Record<string, string> = Object.fromEntries(
+        Object.keys(csvRowSchema.shape).map(column => [column, ''])
+      );
+      columns.forEach((column, i) => {
+        record[column] = cells[i] ?? '';
+      });
+      return validate(csvRowSchema, record, `${this.path} row ${index}`);
+    };
+  }
+}
+
+/**
+ * One JSON-encoded MarketSnapshot per line
+ */
+export class JsonlMarketDataProvider extends FileMarketDataProvider {
+  protected parse(content: string): MarketSnapshot[] {
+    const snapshots: MarketSnapshot[] = [];
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim() === '') return;
+
+      const location = `${this.path}:${index + 1}`;
+      snapshots.push(validate(marketSnapshotSchema, parseJSON(line, location), location));
+    });
+
+    return snapshots;
+  }
+
+  protected async *read(marketIds?: ReadonlySet<string>): AsyncGenerator<MarketSnapshot> {
+    const input = createReadStream(this.path, 'utf8');
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    let index = 0;
+
+    try {
+      for await (const line of lines) {
+        index++;
+        if (line.trim() === '') continue;
+
+        const location = `${this.path}:${index}`;
+        const value = parseJSON(line, location);
+        // Skip other markets before the comparatively costly validation
+        const id = (value as { id?: unknown } | null)?.id;
+        if (marketIds && !(typeof id === 'string' && marketIds.has(id))) continue;
+        yield validate(marketSnapshotSchema, value, location);
+      }
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+}
+
+/**
+ * Either a JSON array of MarketSnapshot, or the columnar form
+ * `{ markets: [{ id, question, endDate, timestamp: [...], volume: [...],
+ * outcomes: [{ id, name, price: [...] }] }] }` where every series has one
+ * entry per timestamp
+ */
+export class JsonMarketDataProvider extends FileMarketDataProvider {
+  protected parse(content: string): MarketSnapshot[] {
+    const data = parseJSON(content, this.path);
+
+    if (Array.isArray(data)) {
+      return data.map((item, index) =>
+        validate(marketSnapshotSchema, item, `${this.path}[${index}]`)
+      );
+    }
+
+    const { markets } = validate(columnarFileSchema, data, this.path);
+    return completeSnapshots(markets.flatMap(market => {
+      const length = market.timestamp.length;
+      const lengths = [
+        market.volume.length,
+        market.volume24h.length,
+        market.liquidity.length,
+        market.resolved?.length ?? length,
+        ...market.outcomes.flatMap(outcome => [
+          outcome.price.length,
+          outcome.previousPrice?.length ?? length,
+          outcome.priceChange24h?.length ?? length,
+          outcome.volume24h?.length ?? length,
+        ]),
+      ];
+      if (lengths.some(l => l !== length)) {
+        throw new Error(
+          `${this.path}: every series in market '${market.id}' must have ${length} entries`
+        );
+      }
+
+      return market.timestamp.map((timestamp, i): PartialSnapshot => ({
+        id: market.id,
+        question: market.question,
+        outcomes: market.outcomes.map(outcome => ({
+          id: outcome.id,
+          name: outcome.name,
+          price: outcome.price[i],
+          previousPrice: outcome.previousPrice?.[i],
+          priceChange24h: outcome.priceChange24h?.[i],
+          volume24h: outcome.volume24h?.[i] ?? 0,
+        })),
+        volume: market.volume[i],
+        volume24h: market.volume24h[i],
+        liquidity: market.liquidity[i],
+        resolved: market.resolved?.[i] ?? false,
+        resolutionOutcome: market.resolutionOutcome,
+        endDate: market.endDate,
+        timestamp,
+      }));
+    }));
+  }
+}
+
+/**
+ * Pick a provider from the file extension: .csv, .jsonl / .ndjson or .json
+ */
+export function createFileProvider(path: string): FileMarketDataProvider {
+  switch (extname(path).toLowerCase()) {
+    case '.csv':
+      return new CsvMarketDataProvider(path);
+    case '.jsonl':
+    case '.ndjson':
+      return new JsonlMarketDataProvider(path);
+    case '.json':
+      return new JsonMarketDataProvider(path);
+    default:
+      throw new Error(`Unsupported data file '${path}'; expected .csv, .jsonl, .ndjson or .json`);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function validate<T extends z.ZodTypeAny>(
+  schema: T,
+  value: unknown,
+  location: string
+): z.output<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? ` ${issue.path.join('.')}:` : '';
+    throw new Error(`${location}:${field} ${issue.message}`);
+  }
+  return result.data;
+}
+
+function parseJSON(text: string, location: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${location}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function toPartialSnapshot(row: CsvRow): PartialSnapshot {
+  return {
+    id: row.marketId,
+    question: row.question,
+    outcomes: [],
+    volume: row.volume,
+    volume24h: row.volume24h,
+    liquidity: row.liquidity,
+    resolved: row.resolved,
+    resolutionOutcome: row.resolutionOutcome,
+    endDate: row.endDate,
+    timestamp: row.timestamp,
+  };
+}
+
+function toPartialOutcome(row: CsvRow): PartialOutcome {
+  return {
+    id: row.outcomeId,
+    name: row.outcomeName || row.outcomeId,
+    price: row.price,
+    previousPrice: row.previousPrice,
+    priceChange24h: row.priceChange24h,
+    volume24h: row.outcomeVolume24h ?? 0,
+  };
+}
+
+function groupByMarket(snapshots: MarketSnapshot[]): Map<string, MarketSnapshot[]> {
+  const markets = new Map<string, MarketSnapshot[]>();
+
+  for (const snapshot of snapshots) {
+    const list = markets.get(snapshot.id) || [];
+    list.push(snapshot);
+    markets.set(snapshot.id, list);
+  }
+
+  for (const list of markets.values()) {
+    list.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  return markets;
+}
+
+/**
+ * Fill in previousPrice (the prior observation) and priceChange24h (change
+ * against the latest observation at least 24h earlier, or 0 while the
+ * outcome has less than a day of history) where a file omits them
+ */
+function completeSnapshots(snapshots: PartialSnapshot[]): MarketSnapshot[] {
+  const ordered = [...snapshots].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  return ordered.map(snapshotCompleter());
+}
+
+/**
+ * Completes snapshots fed to it in time order. Each outcome keeps only the
+ * observations from its current day-ago point onwards.
+ */
+function snapshotCompleter(): (snapshot: PartialSnapshot) => MarketSnapshot {
+  const DAY = 24 * 60 * 60 * 1000;
+  const history = new Map<string, { observations: Array<{ time: number; price: number }>; dayAgo: number }>();
+
+  return snapshot => ({
+    ...snapshot,
+    outcomes: snapshot.outcomes.map(outcome => {
+      const key = `${snapshot.id}:${outcome.id}`;
+      let entry = history.get(key);
+      if (!entry) {
+        entry = { observations: [], dayAgo: 0 };
+        history.set(key, entry);
+      }
+      const { observations } = entry;
+      const time = snapshot.timestamp.getTime();
+
+      const previous = observations[observations.length - 1];
+      while (entry.dayAgo + 1 < observations.length && observations[entry.dayAgo + 1].time <= time - DAY) {
+        entry.dayAgo++;
+      }
+      const dayAgo = observations[entry.dayAgo];
+
+      observations.push({ time, price: outcome.price });
+      // Drop observations that can no longer be the day-ago point
+      if (entry.dayAgo > 1024 && entry.dayAgo * 2 > observations.length) {
+        entry.observations = observations.slice(entry.dayAgo);
+        entry.dayAgo = 0;
+      }
+
+      return {
+        ...outcome,
+        previousPrice: outcome.previousPrice ?? previous?.price ?? outcome.price,
+        priceChange24h: outcome.priceChange24h ??
+          (dayAgo && dayAgo.time <= time - DAY ? outcome.price - dayAgo.price : 0),
+      };
+    }),
+  });
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes, embedded newlines
+ */
+function parseCSV(content: string): string[][] {
+  const reader = new CsvReader();
+  const rows = reader.push(content);
+  rows.push(...reader.end());
+  return rows;
+}
+
+/**
+ * Rows of a CSV file, read in chunks
+ */
+async function* readCSV(path: string): AsyncGenerator<string[]> {
+  const reader = new CsvReader();
+  for await (const chunk of createReadStream(path, 'utf8')) {
+    yield* reader.push(chunk as string);
+  }
+  yield* reader.end();
+}
+
+/**
+ * Incremental form of the CSV parser: push returns the rows completed by
+ * each chunk, so fields and line breaks may span chunks
+ */
+class CsvReader {
+  private row: string[] = [];
+  private field = '';
+  private quoted = false;
+  // A quote closing a field, or an escaped quote if the next char is '"'
+  private quotePending = false;
+  // After a '\r' line break, a following '\n' belongs to the same break
+  private crPending = false;
+
+  push(chunk: string): string[][] {
+    const rows: string[][] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.crPending) {
+        this.crPending = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.quoted = false;
+      }
+
+      if (this.quoted) {
+        if (char === '"') {
+          this.quotePending = true;
+        } else {
+          this.field += char;
+        }
+      } else if (char === '"') {
+        this.quoted = true;
+      } else if (char === ',') {
+        this.row.push(this.field);
+        this.field = '';
+      } else if (char === '\n' || char === '\r') {
+        this.crPending = char === '\r';
+        this.row.push(this.field);
+        rows.push(this.row);
+        this.row = [];
+        this.field = '';
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * The final row, when the input does not end with a line break
+   */
+  end(): string[][] {
+    const rows: string[][] = [];
+    if (this.field !== '' || this.row.length > 0) {
+      this.row.push(this.field);
+      rows.push(this.row);
+    }
+    this.row = [];
+    this.field = '';
+    this.quoted = false;
+    this.quotePending = false;
+    this.crPending = false;
+    return rows;
+  }
+}
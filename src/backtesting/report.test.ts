@@ -0,0 +1,68 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { BacktestResult } from '../types';
+import { BacktestEngine } from './engine';
+import { toHTMLReport, toMarkdownReport } from './report';
+import { MemoryMarketDataProvider, ScriptedStrategy, TEST_START, binaryMarket } from '../test-helpers';
+
+describe('backtest reports', () => {
+  let result: BacktestResult;
+  let other: BacktestResult;
+
+  beforeAll(async () => {
+    const provider = new MemoryMarketDataProvider({
+      a: binaryMarket('a', [0.5, 0.6, 0.4, 0.7], 'Yes'),
+      b: binaryMarket('b', [0.5, 0.45, 0.4, 0.45]),
+    });
+    const engine = new BacktestEngine(provider, { fees: 0, slippage: 0 });
+    const config = {
+      strategyId: 'scripted',
+      parameters: {},
+      startDate: TEST_START,
+      endDate: new Date('2024-12-31T00:00:00Z'), // one year, for a readable CAGR
+      initialCapital: 1000,
+      markets: ['a', 'b'],
+      benchmark: { type: 'buy_and_hold' as const },
+    };
+
+    result = await engine.run(new ScriptedStrategy([
+      { at: 0, marketId: 'a', outcomeId: 'a-yes', type: 'buy' },
+      { at: 0, marketId: 'b', outcomeId: 'b-yes', type: 'buy', stopLoss: 0.42 },
+    ]), config);
+    other = await engine.run(new ScriptedStrategy([
+      { at: 1, marketId: 'b', outcomeId: 'b-no', type: 'buy' },
+    ]), config);
+  });
+
+  it('renders a Markdown summary', () => {
+    expect(toMarkdownReport(result, { title: 'Scripted | run' })).toMatchSnapshot();
+  });
+
+  it('renders a self-contained HTML tearsheet', () => {
+    const html = toHTMLReport(result, { title: '<Scripted>' });
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>&lt;Scripted&gt;</title>');
+    expect(html).not.toContain('<Scripted>');
+    expect(html.match(/<svg/g)).toHaveLength(2);
+    // The benchmark is drawn and its metrics listed for a single result
+    expect(html).toContain('Benchmark</span>');
+    expect(html).toContain('<td>Beta</td>');
+    expect(html).toContain('<td class="num positive">$100.00</td>');
+    expect(html).toContain('<td class="">stop_loss</td>');
+  });
+
+  it('compares two runs side by side', () => {
+    const html = toHTMLReport(result, { compare: other });
+    const markdown = toMarkdownReport(result, { compare: other, labels: ['long', 'short'] });
+
+    expect(html).toContain('<title>scripted (A) vs scripted (B)</title>');
+    expect(html).not.toContain('Benchmark</span>');
+    expect(markdown).toContain('# long vs short');
+    expect(markdown).toContain('### short');
+    expect(markdown).toMatch(/\| Trades \| 2 \| 1 \|/);
+  });
+
+  it('caps the trade list', () => {
+    expect(toMarkdownReport(result, { maxTrades: 1 })).toContain('_Showing 1 of 2 trades_');
+  });
+});
@@ -0,0 +1,448 @@
+/**
+ * EdgePoly Strategies - Backtest Reports
+ *
+ * Renders backtest results as a self-contained HTML tearsheet with inline
+ * SVG charts, or as a Markdown summary. Pass a second result to compare two
+ * runs side by side.
+ */
+
+import type { BacktestResult, DrawdownPeriod } from '../types';
+import { formatCurrency, formatPercentage } from '../utils/helpers';
+
+export interface ReportOptions {
+  title?: string; // default: the strategy id(s)
+  compare?: BacktestResult; // second result shown alongside the first
+  labels?: string[]; // names of the result and the compared result (default: strategy ids)
+  maxTrades?: number; // trades listed per result (default: 100)
+  maxDrawdowns?: number; // deepest drawdowns listed per result (default: 10)
+}
+
+interface ReportEntry {
+  label: string;
+  result: BacktestResult;
+  color: string;
+}
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  points: Array<[number, number]>; // [time, value]
+  dashed?: boolean;
+}
+
+type MetricRow = [string, (result: BacktestResult) => number | undefined, (value: number) => string];
+
+const COLORS = ['#2563eb', '#ea580c'];
+const BENCHMARK_COLOR = '#9ca3af';
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MAX_CHART_POINTS = 1000;
+
+const ratio = (value: number) => (Number.isFinite(value) ? value.toFixed(2) : value > 0 ? '∞' : '-');
+const percent = (value: number) => (Number.isFinite(value) ? formatPercentage(value) : '-');
+const currency = (value: number) => (Number.isFinite(value) ? formatCurrency(value) : '-');
+
+const METRIC_ROWS: MetricRow[] = [
+  ['Total Return', r => r.summary.totalReturn, percent],
+  ['Total PnL', r => r.summary.totalPnl, currency],
+  ['Trades', r => r.summary.totalTrades, value => String(value)],
+  ['CAGR', r => r.metrics.cagr, percent],
+  ['Volatility (annual)', r => r.metrics.volatility, percent],
+  ['Sharpe Ratio', r => r.metrics.sharpeRatio, ratio],
+  ['Sortino Ratio', r => r.metrics.sortinoRatio, ratio],
+  ['Calmar Ratio', r => r.metrics.calmarRatio, ratio],
+  ['Max Drawdown', r => r.metrics.maxDrawdown, percent],
+  ['Max Drawdown Duration', r => r.metrics.maxDrawdownDuration, value => `${value.toFixed(1)}d`],
+  ['Ulcer Index', r => r.metrics.ulcerIndex, ratio],
+  ['Win Rate', r => r.metrics.winRate, percent],
+  ['Profit Factor', r => r.metrics.profitFactor, ratio],
+  ['Expectancy', r => r.metrics.expectancy, currency],
+  ['Payoff Ratio', r => r.metrics.payoffRatio, ratio],
+  ['Avg Holding Period', r => r.summary.averageHoldingPeriod, value => `${value.toFixed(1)}h`],
+  ['Exposure', r => r.summary.exposure, percent],
+  ['Peak Capital Used', r => r.summary.peakCapitalUtilization, percent],
+  ['Max Leverage', r => r.summary.maxLeverage, value => `${value.toFixed(2)}x`],
+  ['Periods per Year', r => r.metrics.periodsPerYear, value => value.toFixed(0)],
+  ['Alpha (annual)', r => r.metrics.alpha, percent],
+  ['Beta', r => r.metrics.beta, ratio],
+  ['Information Ratio', r => r.metrics.informationRatio, ratio],
+  ['Tracking Error', r => r.metrics.trackingError, percent],
+  ['Up Capture', r => r.metrics.upCapture, ratio],
+  ['Down Capture', r => r.metrics.downCapture, ratio],
+];
+
+/**
+ * Self-contained HTML tearsheet: metrics, equity and drawdown charts,
+ * monthly returns heatmap, deepest drawdowns and the trade list
+ */
+export function toHTMLReport(result: BacktestResult, options: ReportOptions = {}): string {
+  const entries = reportEntries(result, options);
+  const title = options.title || entries.map(e => e.label).join(' vs ');
+  const comparing = entries.length > 1;
+  const heading = (entry: ReportEntry) =>
+    comparing ? `<h3 style="color:${entry.color}">${escapeHTML(entry.label)}</h3>` : '';
+
+  const equitySeries: ChartSeries[] = entries.map(entry => ({
+    label: entry.label,
+    color: entry.color,
+    points: entry.result.equityCurve.map(p => [p.timestamp.getTime(), p.equity] as [number, number]),
+  }));
+  // A benchmark is only drawn for a single result; two runs may hold different markets
+  const benchmark = !comparing ? result.benchmarkCurve : undefined;
+  if (benchmark) {
+    equitySeries.push({
+      label: 'Benchmark',
+      color: BENCHMARK_COLOR,
+      points: benchmark.map(p => [p.timestamp.getTime(), p.equity] as [number, number]),
+      dashed: true,
+    });
+  }
+  const drawdownSeries: ChartSeries[] = entries.map(entry => ({
+    label: entry.label,
+    color: entry.color,
+    points: entry.result.equityCurve.map(p => [p.timestamp.getTime(), -p.drawdownPercent] as [number, number]),
+  }));
+
+  const metricsHeader = `<tr><th></th>${entries.map(e => `<th>${escapeHTML(e.label)}</th>`).join('')}</tr>`;
+  const metricsRows = metricRows(entries)
+    .map(([label, values]) => `<tr><td>${label}</td>${values.map(v => `<td class="num">${v}</td>`).join('')}</tr>`)
+    .join('\n');
+
+  const monthly = entries.map(entry => heading(entry) + monthlyHeatmap(entry.result)).join('\n');
+  const drawdowns = entries
+    .map(entry => heading(entry) + htmlTable(...drawdownTable(entry.result, options.maxDrawdowns)))
+    .join('\n');
+  const trades = entries
+    .map(entry => {
+      const [header, rows, note] = tradeTable(entry.result, options.maxTrades);
+      return heading(entry) + (note ? `<p class="meta">${note}</p>` : '') + htmlTable(header, rows);
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>
+body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #111827; margin: 32px auto; max-width: 960px; padding: 0 16px; }
+h1 { margin-bottom: 4px; }
+h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 32px; }
+.meta { color: #6b7280; font-size: 13px; }
+table { border-collapse: collapse; font-size: 13px; margin: 8px 0; }
+th, td { padding: 4px 10px; border-bottom: 1px solid #f3f4f6; text-align: left; }
+th { color: #374151; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+.heatmap td { text-align: center; min-width: 44px; }
+.legend span { display: inline-block; margin-right: 16px; font-size: 13px; }
+.legend i { display: inline-block; width: 12px; height: 3px; margin-right: 6px; vertical-align: middle; }
+.positive { color: #15803d; }
+.negative { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(title)}</h1>
+${entries.map(entry => `<p class="meta">${escapeHTML(describeRun(entry))}</p>`).join('\n')}
+<h2>Performance</h2>
+<table>
+${metricsHeader}
+${metricsRows}
+</table>
+<h2>Equity</h2>
+${legend(equitySeries)}
+${lineChart(equitySeries, currency)}
+<h2>Drawdown</h2>
+${comparing ? legend(drawdownSeries) : ''}
+${lineChart(drawdownSeries, value => formatPercentage(value, 0), true)}
+<h2>Monthly Returns</h2>
+${monthly}
+<h2>Drawdowns</h2>
+${drawdowns}
+<h2>Trades</h2>
+${trades}
+</body>
+</html>
+`;
+}
+
+/**
+ * Markdown summary with the same tables as the HTML tearsheet, without charts
+ */
+export function toMarkdownReport(result: BacktestResult, options: ReportOptions = {}): string {
+  const entries = reportEntries(result, options);
+  const title = options.title || entries.map(e => e.label).join(' vs ');
+  const comparing = entries.length > 1;
+  const heading = (entry: ReportEntry) => (comparing ? `### ${escapeMarkdown(entry.label)}\n\n` : '');
+
+  const sections: string[] = [
+    `# ${escapeMarkdown(title)}`,
+    entries.map(entry => `_${escapeMarkdown(describeRun(entry))}_`).join('\n\n'),
+    '## Performance',
+    markdownTable(['', ...entries.map(e => e.label)], metricRows(entries).map(([label, values]) => [label, ...values])),
+    '## Monthly Returns',
+    entries.map(entry => {
+      const { years, cells } = monthlyGrid(entry.result);
+      const rows = years.map(year => [
+        String(year),
+        ...cells.get(year)!.map(r => (r === undefined ? '' : formatPercentage(r, 1))),
+        formatPercentage(yearReturn(cells.get(year)!), 1),
+      ]);
+      return heading(entry) + (rows.length > 0 ? markdownTable(['Year', ...MONTHS, 'Year'], rows) : 'No data.');
+    }).join('\n\n'),
+    '## Drawdowns',
+    entries.map(entry => heading(entry) + markdownTable(...drawdownTable(entry.result, options.maxDrawdowns))).join('\n\n'),
+    '## Trades',
+    entries.map(entry => {
+      const [header, rows, note] = tradeTable(entry.result, options.maxTrades);
+      return heading(entry) + (note ? `_${note}_\n\n` : '') + markdownTable(header, rows);
+    }).join('\n\n'),
+  ];
+
+  return sections.join('\n\n') + '\n';
+}
+
+function reportEntries(result: BacktestResult, options: ReportOptions): ReportEntry[] {
+  const results = options.compare ? [result, options.compare] : [result];
+  const labels = results.map((r, i) => options.labels?.[i] || r.config.strategyId);
+  if (labels.length === 2 && labels[0] === labels[1]) {
+    labels[0] = `${labels[0]} (A)`;
+    labels[1] = `${labels[1]} (B)`;
+  }
+
+  return results.map((r, i) => ({ label: labels[i], result: r, color: COLORS[i] }));
+}
+
+function describeRun(entry: ReportEntry): string {
+  const { config } = entry.result;
+  const markets = config.markets ? `, ${config.markets.length} market(s)` : '';
+  return `${entry.label}: ${formatDate(config.startDate)} → ${formatDate(config.endDate)}${markets}, ` +
+    `${formatCurrency(config.initialCapital)} initial capital`;
+}
+
+/**
+ * Formatted metric values per entry, skipping metrics no entry has (e.g.
+ * benchmark metrics without a benchmark)
+ */
+function metricRows(entries: ReportEntry[]): Array<[string, string[]]> {
+  return METRIC_ROWS
+    .map(([label, value, format]): [string, Array<number | undefined>, (value: number) => string] =>
+      [label, entries.map(e => value(e.result)), format])
+    .filter(([, values]) => values.some(v => v !== undefined))
+    .map(([label, values, format]) => [label, values.map(v => (v === undefined ? '-' : format(v)))]);
+}
+
+function monthlyGrid(result: BacktestResult): {
+  years: number[];
+  cells: Map<number, Array<number | undefined>>;
+} {
+  const cells = new Map<number, Array<number | undefined>>();
+  for (const month of result.monthlyReturns) {
+    if (!cells.has(month.year)) cells.set(month.year, new Array(12).fill(undefined));
+    cells.get(month.year)![month.month] = month.return;
+  }
+
+  return { years: Array.from(cells.keys()).sort((a, b) => a - b), cells };
+}
+
+function yearReturn(months: Array<number | undefined>): number {
+  return months.reduce<number>((growth, r) => growth * (1 + (r ?? 0)), 1) - 1;
+}
+
+function monthlyHeatmap(result: BacktestResult): string {
+  const { years, cells } = monthlyGrid(result);
+  if (years.length === 0) return '<p class="meta">No data.</p>';
+
+  const details = new Map(result.monthlyReturns.map(m => [`${m.year}-${m.month}`, m]));
+  const maxAbs = result.monthlyReturns.reduce((max, m) => Math.max(max, Math.abs(m.return)), 1e-9);
+  const cell = (value: number | undefined, tooltip = '') => {
+    if (value === undefined) return '<td></td>';
+    const alpha = (0.1 + 0.6 * Math.min(1, Math.abs(value) / maxAbs)).toFixed(2);
+    const background = value >= 0 ? `rgba(22,163,74,${alpha})` : `rgba(220,38,38,${alpha})`;
+    return `<td style="background:${background}"${tooltip ? ` title="${escapeHTML(tooltip)}"` : ''}>` +
+      `${formatPercentage(value, 1)}</td>`;
+  };
+
+  const rows = years.map(year => {
+    const months = cells.get(year)!;
+    const monthCells = months.map((value, month) => {
+      const detail = details.get(`${year}-${month}`);
+      return cell(value, detail ? `${detail.trades} trades, ${formatCurrency(detail.pnl)}` : '');
+    });
+    return `<tr><th>${year}</th>${monthCells.join('')}${cell(yearReturn(months))}</tr>`;
+  });
+
+  return `<table class="heatmap">
+<tr><th></th>${MONTHS.map(m => `<th>${m}</th>`).join('')}<th>Year</th></tr>
+${rows.join('\n')}
+</table>`;
+}
+
+function drawdownTable(result: BacktestResult, maxDrawdowns: number = 10): [string[], string[][]] {
+  const deepest = [...result.drawdowns]
+    .sort((a, b) => b.maxDrawdownPercent - a.maxDrawdownPercent)
+    .slice(0, maxDrawdowns);
+
+  return [
+    ['Start', 'End', 'Recovered', 'Depth', 'Amount', 'Duration'],
+    deepest.map((drawdown: DrawdownPeriod) => [
+      formatDate(drawdown.startDate),
+      formatDate(drawdown.endDate),
+      drawdown.recoveryDate ? formatDate(drawdown.recoveryDate) : 'No',
+      formatPercentage(drawdown.maxDrawdownPercent),
+      formatCurrency(drawdown.maxDrawdown),
+      `${drawdown.duration.toFixed(1)}d`,
+    ]),
+  ];
+}
+
+function tradeTable(result: BacktestResult, maxTrades: number = 100): [string[], string[][], string] {
+  const shown = result.trades.slice(0, maxTrades);
+
+  return [
+    ['Entry', 'Exit', 'Market', 'Outcome', 'Side', 'Entry Price', 'Exit Price', 'Size', 'PnL', 'PnL %', 'Exit Reason'],
+    shown.map(trade => [
+      formatDateTime(trade.entryTime),
+      trade.exitTime ? formatDateTime(trade.exitTime) : '',
+      trade.marketId,
+      trade.outcomeId,
+      trade.side,
+      trade.entryPrice.toFixed(4),
+      trade.exitPrice !== undefined ? trade.exitPrice.toFixed(4) : '',
+      trade.size.toFixed(2),
+      formatCurrency(trade.pnl),
+      `${trade.pnlPercent.toFixed(2)}%`,
+      trade.exitReason,
+    ]),
+    shown.length < result.trades.length ? `Showing ${shown.length} of ${result.trades.length} trades` : '',
+  ];
+}
+
+/**
+ * SVG line chart of one or more series on shared axes. Long series are
+ * reduced to the low and high of each bucket so spikes stay visible.
+ */
+function lineChart(series: ChartSeries[], format: (value: number) => string, fill = false): string {
+  const width = 900;
+  const height = 260;
+  const margin = { top: 10, right: 16, bottom: 26, left: 84 };
+  if (series.every(s => s.points.length === 0)) return '<p class="meta">No data.</p>';
+
+  // Plain loops: spreading minute-level curves into Math.min overflows the stack
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const s of series) {
+    for (const [px, py] of s.points) {
+      if (px < minX) minX = px;
+      if (px > maxX) maxX = px;
+      if (py < minY) minY = py;
+      if (py > maxY) maxY = py;
+    }
+  }
+  if (fill) maxY = Math.max(maxY, 0);
+  if (minY === maxY) {
+    minY -= Math.abs(minY) * 0.05 || 1;
+    maxY += Math.abs(maxY) * 0.05 || 1;
+  }
+
+  const plotWidth = width - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+  const x = (value: number) => margin.left + (maxX > minX ? (value - minX) / (maxX - minX) : 0.5) * plotWidth;
+  const y = (value: number) => margin.top + (1 - (value - minY) / (maxY - minY)) * plotHeight;
+
+  const grid: string[] = [];
+  for (let i = 0; i <= 4; i++) {
+    const value = minY + ((maxY - minY) * i) / 4;
+    grid.push(
+      `<line x1="${margin.left}" x2="${width - margin.right}" y1="${y(value).toFixed(1)}" y2="${y(value).toFixed(1)}" stroke="#f3f4f6"/>`,
+      `<text x="${margin.left - 6}" y="${(y(value) + 4).toFixed(1)}" text-anchor="end">${escapeHTML(format(value))}</text>`
+    );
+    const time = minX + ((maxX - minX) * i) / 4;
+    grid.push(
+      `<text x="${x(time).toFixed(1)}" y="${height - 8}" text-anchor="${i === 0 ? 'start' : i === 4 ? 'end' : 'middle'}">${formatDate(new Date(time))}</text>`
+    );
+  }
+
+  const paths = series.map(s => {
+    const points = downsample(s.points);
+    const line = points.map(([px, py], i) => `${i === 0 ? 'M' : 'L'}${x(px).toFixed(1)},${y(py).toFixed(1)}`).join('');
+    const area = fill && points.length > 0
+      ? `<path d="${line}L${x(points[points.length - 1][0]).toFixed(1)},${y(0).toFixed(1)}L${x(points[0][0]).toFixed(1)},${y(0).toFixed(1)}Z" fill="${s.color}" fill-opacity="0.12" stroke="none"/>`
+      : '';
+    return `${area}<path d="${line}" fill="none" stroke="${s.color}" stroke-width="1.5"${s.dashed ? ' stroke-dasharray="4 3"' : ''}/>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" font-size="11" fill="#6b7280">
+${grid.join('\n')}
+${paths.join('\n')}
+</svg>`;
+}
+
+function legend(series: ChartSeries[]): string {
+  return `<div class="legend">${series
+    .map(s => `<span><i style="background:${s.color}"></i>${escapeHTML(s.label)}</span>`)
+    .join('')}</div>`;
+}
+
+function downsample(points: Array<[number, number]>): Array<[number, number]> {
+  if (points.length <= MAX_CHART_POINTS) return points;
+
+  const bucketSize = Math.ceil(points.length / (MAX_CHART_POINTS / 2));
+  const reduced: Array<[number, number]> = [];
+  for (let start = 0; start < points.length; start += bucketSize) {
+    const bucket = points.slice(start, start + bucketSize);
+    let low = bucket[0];
+    let high = bucket[0];
+    for (const point of bucket) {
+      if (point[1] < low[1]) low = point;
+      if (point[1] > high[1]) high = point;
+    }
+    reduced.push(...(low[0] <= high[0] ? [low, high] : [high, low]));
+  }
+
+  return reduced;
+}
+
+function htmlTable(header: string[], rows: string[][]): string {
+  if (rows.length === 0) return '<p class="meta">None.</p>';
+
+  const pnlColumn = header.indexOf('PnL');
+  const body = rows.map(row =>
+    `<tr>${row.map((value, i) => {
+      const tone = i === pnlColumn ? (value.startsWith('-') ? ' negative' : ' positive') : '';
+      return `<td class="${/^-?\$?[\d,.]+(%|x|d|h)?$/.test(value) ? 'num' : ''}${tone}">${escapeHTML(value)}</td>`;
+    }).join('')}</tr>`
+  );
+
+  return `<table>
+<tr>${header.map(h => `<th>${escapeHTML(h)}</th>`).join('')}</tr>
+${body.join('\n')}
+</table>`;
+}
+
+function markdownTable(header: string[], rows: string[][]): string {
+  if (rows.length === 0) return 'None.';
+
+  const line = (cells: string[]) => `| ${cells.map(escapeMarkdown).join(' | ')} |`;
+  return [line(header), `|${header.map(() => ' --- ').join('|')}|`, ...rows.map(line)].join('\n');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().slice(0, 16).replace('T', ' ');
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
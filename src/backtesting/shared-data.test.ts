@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import type { MarketSnapshot } from '../types';
+import { SharedMarketDataProvider, encodeMarketData } from './shared-data';
+import { binaryMarket, hour } from '../test-helpers';
+
+describe('SharedMarketDataProvider', () => {
+  const resolved = binaryMarket('a', [0.5, 0.7, 0.9], 'Yes');
+  // Out of order, to check each market is stored in time order
+  const unordered = binaryMarket('b', [0.2, 0.3]).reverse();
+  const data = new Map<string, MarketSnapshot[]>([['a', resolved], ['b', unordered], ['c', []]]);
+
+  it('decodes the snapshots it encodes', async () => {
+    const provider = new SharedMarketDataProvider(encodeMarketData(data));
+
+    expect(await provider.getHistoricalData('a', hour(0), hour(24))).toEqual(resolved);
+    expect(await provider.getHistoricalData('b', hour(0), hour(24))).toEqual([...unordered].reverse());
+    expect(await provider.getHistoricalData('c', hour(0), hour(24))).toEqual([]);
+    expect(await provider.getHistoricalData('missing', hour(0), hour(24))).toEqual([]);
+  });
+
+  it('interns repeated strings and serves date ranges', async () => {
+    const encoded = encodeMarketData(data);
+    const provider = new SharedMarketDataProvider(encoded);
+
+    expect(encoded.strings.filter(value => value === 'a-yes')).toHaveLength(1);
+    expect((await provider.getHistoricalData('a', hour(1), hour(2))).map(s => s.timestamp))
+      .toEqual([hour(1), hour(2)]);
+  });
+});
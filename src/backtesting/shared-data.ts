@@ -0,0 +1,167 @@
+/**
+ * EdgePoly Strategies - Shared Market Data
+ *
+ * Packs loaded market data into a SharedArrayBuffer so worker threads read
+ * one copy of it instead of each receiving a structured clone.
+ */
+
+import type { MarketSnapshot } from '../types';
+import type { MarketDataProvider } from './engine';
+
+/**
+ * Market data laid out as float64 records. Strings (ids, names, questions)
+ * are interned into a small table that is cloned to each worker.
+ */
+export interface SharedMarketData {
+  buffer: SharedArrayBuffer;
+  strings: string[];
+  markets: Array<[marketId: string, start: number, end: number]>; // record offsets
+}
+
+// Snapshot record: id, question, resolutionOutcome (-1 when unset),
+// timestamp, endDate, volume, volume24h, liquidity, resolved, outcome count
+const SNAPSHOT_FIELDS = 10;
+// Outcome record: id, name, price, previousPrice, priceChange24h, volume24h
+const OUTCOME_FIELDS = 6;
+
+/**
+ * Encode each market's snapshots in time order
+ */
+export function encodeMarketData(marketData: Map<string, MarketSnapshot[]>): SharedMarketData {
+  const strings: string[] = [];
+  const stringIndex = new Map<string, number>();
+  const intern = (value: string): number => {
+    let index = stringIndex.get(value);
+    if (index === undefined) {
+      index = strings.push(value) - 1;
+      stringIndex.set(value, index);
+    }
+    return index;
+  };
+
+  let length = 0;
+  for (const snapshots of marketData.values()) {
+    for (const snapshot of snapshots) {
+      length += SNAPSHOT_FIELDS + snapshot.outcomes.length * OUTCOME_FIELDS;
+    }
+  }
+
+  const buffer = new SharedArrayBuffer(length * Float64Array.BYTES_PER_ELEMENT);
+  const values = new Float64Array(buffer);
+  const markets: SharedMarketData['markets'] = [];
+  let offset = 0;
+
+  for (const [marketId, snapshots] of marketData) {
+    const start = offset;
+    const ordered = [...snapshots].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    for (const snapshot of ordered) {
+      values[offset++] = intern(snapshot.id);
+      values[offset++] = intern(snapshot.question);
+      values[offset++] = snapshot.resolutionOutcome !== undefined
+        ? intern(snapshot.resolutionOutcome)
+        : -1;
+      values[offset++] = snapshot.timestamp.getTime();
+      values[offset++] = snapshot.endDate.getTime();
+      values[offset++] = snapshot.volume;
+      values[offset++] = snapshot.volume24h;
+      values[offset++] = snapshot.liquidity;
+      values[offset++] = snapshot.resolved ? 1 : 0;
+      values[offset++] = snapshot.outcomes.length;
+
+      for (const outcome of snapshot.outcomes) {
+        values[offset++] = intern(outcome.id);
+        values[offset++] = intern(outcome.name);
+        values[offset++] = outcome.price;
+        values[offset++] = outcome.previousPrice;
+        values[offset++] = outcome.priceChange24h;
+        values[offset++] = outcome.volume24h;
+      }
+    }
+
+    markets.push([marketId, start, offset]);
+  }
+
+  return { buffer, strings, markets };
+}
+
+/**
+ * Serves SharedMarketData, decoding snapshots as they are streamed
+ */
+export class SharedMarketDataProvider implements MarketDataProvider {
+  private values: Float64Array;
+  private strings: string[];
+  private markets: Map<string, [number, number]>;
+
+  constructor(data: SharedMarketData) {
+    this.values = new Float64Array(data.buffer);
+    this.strings = data.strings;
+    this.markets = new Map(data.markets.map(([marketId, start, end]) => [marketId, [start, end]]));
+  }
+
+  async getHistoricalData(
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<MarketSnapshot[]> {
+    const snapshots: MarketSnapshot[] = [];
+    for await (const snapshot of this.streamHistoricalData(marketId, startDate, endDate)) {
+      snapshots.push(snapshot);
+    }
+    return snapshots;
+  }
+
+  async *streamHistoricalData(
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): AsyncGenerator<MarketSnapshot> {
+    const range = this.markets.get(marketId);
+    if (!range) return;
+
+    const values = this.values;
+    const start = startDate.getTime();
+    const end = endDate.getTime();
+
+    for (let offset = range[0]; offset < range[1];) {
+      const time = values[offset + 3];
+      if (time > end) break;
+
+      const next = offset + SNAPSHOT_FIELDS + values[offset + 9] * OUTCOME_FIELDS;
+      if (time >= start) yield this.decode(offset);
+      offset = next;
+    }
+  }
+
+  private decode(offset: number): MarketSnapshot {
+    const values = this.values;
+    const strings = this.strings;
+    const resolutionOutcome = values[offset + 2];
+
+    const outcomes: MarketSnapshot['outcomes'] = [];
+    let position = offset + SNAPSHOT_FIELDS;
+    for (let i = 0; i < values[offset + 9]; i++, position += OUTCOME_FIELDS) {
+      outcomes.push({
+        id: strings[values[position]],
+        name: strings[values[position + 1]],
+        price: values[position + 2],
+        previousPrice: values[position + 3],
+        priceChange24h: values[position + 4],
+        volume24h: values[position + 5],
+      });
+    }
+
+    return {
+      id: strings[values[offset]],
+      question: strings[values[offset + 1]],
+      outcomes,
+      volume: values[offset + 5],
+      volume24h: values[offset + 6],
+      liquidity: values[offset + 7],
+      resolved: values[offset + 8] === 1,
+      resolutionOutcome: resolutionOutcome >= 0 ? strings[resolutionOutcome] : undefined,
+      endDate: new Date(values[offset + 4]),
+      timestamp: new Date(values[offset + 3]),
+    };
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * EdgePoly Strategies - Snapshot Streams
+ *
+ * Merges per-market snapshot streams into a single time-ordered stream of
+ * ticks, holding only the next snapshot of each market in memory, and fans
+ * a provider's single pass over its data out to those per-market streams.
+ */
+
+import type { MarketSnapshot } from '../types';
+
+interface StreamHead {
+  time: number;
+  index: number; // position of the stream, breaks timestamp ties
+  snapshot: MarketSnapshot;
+}
+
+/**
+ * Merge per-market streams, each in ascending time order, yielding every
+ * snapshot sharing a timestamp together. Within a tick snapshots follow the
+ * order of the streams.
+ */
+export async function* mergeSnapshotStreams(
+  streams: AsyncIterable<MarketSnapshot>[]
+): AsyncGenerator<MarketSnapshot[]> {
+  const iterators = streams.map(stream => stream[Symbol.asyncIterator]());
+  const lastTimes: number[] = iterators.map(() => -Infinity);
+  const heap = new MinHeap<StreamHead>((a, b) => a.time - b.time || a.index - b.index);
+
+  const pull = async (index: number): Promise<void> => {
+    const next = await iterators[index].next();
+    if (next.done) return;
+
+    const time = next.value.timestamp.getTime();
+    if (time < lastTimes[index]) {
+      throw new Error(`Snapshots for market ${next.value.id} are not in time order`);
+    }
+    lastTimes[index] = time;
+    heap.push({ time, index, snapshot: next.value });
+  };
+
+  try {
+    await Promise.all(iterators.map((_, index) => pull(index)));
+
+    while (heap.size > 0) {
+      const time = heap.peek().time;
+      const tick: MarketSnapshot[] = [];
+
+      while (heap.size > 0 && heap.peek().time === time) {
+        const head = heap.pop();
+        tick.push(head.snapshot);
+        await pull(head.index);
+      }
+
+      yield tick;
+    }
+  } finally {
+    // Release providers' resources if the consumer stops early
+    await Promise.all(iterators.map(iterator => iterator.return?.()));
+  }
+}
+
+/**
+ * Stream an already loaded snapshot array in time order
+ */
+export async function* streamSnapshots(
+  snapshots: MarketSnapshot[] | Promise<MarketSnapshot[]>
+): AsyncGenerator<MarketSnapshot> {
+  const loaded = await snapshots;
+  yield* [...loaded].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Fans a single pass over a multi-market snapshot source out to per-market
+ * streams, so a provider reads its data once however many markets are
+ * streamed. Streams opened before the pass starts share it; the source is
+ * read only as far as the streams consume it, and snapshots of markets no
+ * stream is open for are dropped. Buffering stays bounded when the source
+ * is in time order across markets, since the engine consumes every stream
+ * together.
+ */
+export class SnapshotFanOut {
+  private queues = new Map<string, MarketSnapshot[][]>();
+  private iterator?: AsyncIterator<MarketSnapshot>;
+  private reading?: Promise<boolean>;
+
+  constructor(
+    private source: (marketIds: ReadonlySet<string>) => AsyncIterable<MarketSnapshot>
+  ) {}
+
+  /**
+   * True once the source is being read; later streams need a new pass
+   */
+  get started(): boolean {
+    return this.iterator !== undefined;
+  }
+
+  /**
+   * Register a market before the pass starts. Its snapshots are buffered
+   * until consumed from stream, or dropped once close is called.
+   */
+  open(marketId: string): { stream: AsyncGenerator<MarketSnapshot>; close: () => void } {
+    if (this.started) {
+      throw new Error('Cannot open a stream once the pass has started');
+    }
+
+    const queue: MarketSnapshot[] = [];
+    const queues = this.queues.get(marketId) || [];
+    queues.push(queue);
+    this.queues.set(marketId, queues);
+
+    let closed = false;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+
+      const remaining = (this.queues.get(marketId) || []).filter(q => q !== queue);
+      if (remaining.length > 0) {
+        this.queues.set(marketId, remaining);
+      } else {
+        this.queues.delete(marketId);
+      }
+      // Release the source once nothing reads from it
+      if (this.queues.size === 0) void this.iterator?.return?.();
+    };
+
+    return { stream: this.drain(queue, close), close };
+  }
+
+  private async *drain(queue: MarketSnapshot[], close: () => void): AsyncGenerator<MarketSnapshot> {
+    try {
+      for (;;) {
+        if (queue.length > 0) {
+          yield* queue.splice(0);
+        } else if (!(await this.pull())) {
+          return;
+        }
+      }
+    } finally {
+      close();
+    }
+  }
+
+  /**
+   * Read one snapshot into the queues of its market. Concurrent callers
+   * share the read; resolves false at the end of the source.
+   */
+  private pull(): Promise<boolean> {
+    if (!this.reading) {
+      this.reading = (async () => {
+        this.iterator ??= this.source(new Set(this.queues.keys()))[Symbol.asyncIterator]();
+        const next = await this.iterator.next();
+        if (next.done) return false;
+
+        for (const queue of this.queues.get(next.value.id) || []) {
+          queue.push(next.value);
+        }
+        return true;
+      })().finally(() => {
+        this.reading = undefined;
+      });
+    }
+    return this.reading;
+  }
+}
+
+class MinHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop() as T;
+    if (items.length === 0) return top;
+
+    items[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+      if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+      if (smallest === i) break;
+      [items[i], items[smallest]] = [items[smallest], items[i]];
+      i = smallest;
+    }
+
+    return top;
+  }
+}
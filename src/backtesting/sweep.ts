@@ -0,0 +1,218 @@
+/**
+ * EdgePoly Strategies - Parameter Sweep
+ *
+ * Grid and random search over a strategy's parameter definitions, ranked
+ * by a chosen performance metric.
+ */
+
+import type {
+  IStrategy,
+  BacktestConfig,
+  BacktestSummary,
+  PerformanceMetrics,
+} from '../types';
+import type { BacktestEngine } from './engine';
+import {
+  getParameterSpace,
+  buildParameterGrid,
+  countCombinations,
+  sampleParameterSet,
+} from './parameters';
+import type { ParameterSet, ParameterSpaceOptions } from './parameters';
+import { scoreResult, runCandidate } from './walk-forward';
+import type { OptimizationObjective, OptimizationDirection } from './walk-forward';
+import { createRandom } from '../utils/helpers';
+
+export interface ParameterSweepConfig {
+  method?: 'grid' | 'random';
+  samples?: number; // random search only
+  seed?: number; // random search only
+  parameterSpace?: ParameterSpaceOptions;
+  maxCombinations?: number; // grid search only
+  concurrency?: number;
+  objective?: OptimizationObjective; // default: sharpeRatio
+  direction?: OptimizationDirection;
+}
+
+export interface SweepRun {
+  rank: number;
+  parameters: ParameterSet;
+  score: number; // objective value
+  summary: BacktestSummary;
+  metrics: PerformanceMetrics;
+}
+
+export interface SweepFailure {
+  parameters: ParameterSet;
+  error: string;
+}
+
+export interface ParameterSweepResult {
+  objective: OptimizationObjective;
+  direction: OptimizationDirection;
+  runs: SweepRun[]; // best first
+  best?: SweepRun;
+  failures: SweepFailure[];
+}
+
+export interface HeatmapMatrix {
+  xParameter: string;
+  yParameter: string;
+  xValues: unknown[];
+  yValues: unknown[];
+  values: Array<Array<number | null>>; // [y][x]
+  counts: number[][]; // runs aggregated into each cell
+}
+
+export class ParameterSweep {
+  private engine: BacktestEngine;
+  private createStrategy: () => IStrategy;
+
+  /**
+   * @param createStrategy factory returning a fresh strategy per run, so
+   * concurrent runs never share state
+   */
+  constructor(engine: BacktestEngine, createStrategy: () => IStrategy) {
+    this.engine = engine;
+    this.createStrategy = createStrategy;
+  }
+
+  async run(
+    config: BacktestConfig,
+    sweep: ParameterSweepConfig = {}
+  ): Promise<ParameterSweepResult> {
+    const objective = sweep.objective || 'sharpeRatio';
+    const direction = sweep.direction || 'maximize';
+    const candidates = this.buildCandidates(sweep);
+
+    const runs: Array<Omit<SweepRun, 'rank'> & { rankScore: number }> = [];
+    const failures: SweepFailure[] = [];
+
+    // Candidates the strategy rejects become failures; other errors abort the sweep
+    await runWithConcurrency(candidates, sweep.concurrency || 4, async (candidate) => {
+      const parameters = { ...config.parameters, ...candidate };
+      const run = await runCandidate(this.engine, this.createStrategy(), { ...config, parameters });
+      if ('error' in run) {
+        failures.push({ parameters, error: run.error });
+        return;
+      }
+
+      const { result } = run;
+      runs.push({
+        parameters,
+        score: result.metrics[objective] ?? 0,
+        rankScore: scoreResult(result, objective, direction),
+        summary: result.summary,
+        metrics: result.metrics,
+      });
+    });
+
+    const ranked = runs
+      .sort((a, b) => b.rankScore - a.rankScore)
+      .map(({ rankScore: _rankScore, ...run }, index) => ({ ...run, rank: index + 1 }));
+
+    return {
+      objective,
+      direction,
+      runs: ranked,
+      best: ranked[0],
+      failures,
+    };
+  }
+
+  private buildCandidates(sweep: ParameterSweepConfig): ParameterSet[] {
+    const parameters = this.createStrategy().config.parameters;
+
+    if (sweep.method === 'random') {
+      const random = createRandom(sweep.seed ?? 1);
+      const samples = sweep.samples || 50;
+      const candidates: ParameterSet[] = [];
+      for (let i = 0; i < samples; i++) {
+        candidates.push(sampleParameterSet(parameters, random, sweep.parameterSpace));
+      }
+      return candidates;
+    }
+
+    const space = getParameterSpace(parameters, sweep.parameterSpace);
+    const combinations = countCombinations(space);
+    const maxCombinations = sweep.maxCombinations || 500;
+    if (combinations > maxCombinations) {
+      throw new Error(
+        `Parameter space has ${combinations} combinations (max ${maxCombinations}); ` +
+        "restrict it with parameterSpace.include or use method: 'random'"
+      );
+    }
+
+    return buildParameterGrid(space);
+  }
+}
+
+/**
+ * Arrange sweep scores on a two-parameter grid for heat-map plotting.
+ * Runs sharing a cell (differing only in other parameters) are averaged,
+ * or reduced to the best score with aggregate 'max': the highest, or the
+ * lowest when direction is 'minimize'.
+ */
+export function buildHeatmap(
+  runs: SweepRun[],
+  xParameter: string,
+  yParameter: string,
+  aggregate: 'mean' | 'max' = 'mean',
+  direction: OptimizationDirection = 'maximize'
+): HeatmapMatrix {
+  const sortValues = (values: unknown[]) =>
+    values.every(v => typeof v === 'number')
+      ? (values as number[]).sort((a, b) => a - b)
+      : values.sort((a, b) => String(a).localeCompare(String(b)));
+
+  const xValues = sortValues(Array.from(new Set(runs.map(r => r.parameters[xParameter]))));
+  const yValues = sortValues(Array.from(new Set(runs.map(r => r.parameters[yParameter]))));
+
+  const sums = yValues.map(() => xValues.map(() => 0));
+  const sign = direction === 'maximize' ? 1 : -1;
+  const best = yValues.map(() => xValues.map(() => -Infinity)); // direction-adjusted
+  const counts = yValues.map(() => xValues.map(() => 0));
+
+  for (const run of runs) {
+    if (!Number.isFinite(run.score)) continue;
+    const x = xValues.indexOf(run.parameters[xParameter]);
+    const y = yValues.indexOf(run.parameters[yParameter]);
+    sums[y][x] += run.score;
+    best[y][x] = Math.max(best[y][x], sign * run.score);
+    counts[y][x]++;
+  }
+
+  const values = counts.map((row, y) =>
+    row.map((count, x) => {
+      if (count === 0) return null;
+      return aggregate === 'max' ? sign * best[y][x] : sums[y][x] / count;
+    })
+  );
+
+  return { xParameter, yParameter, xValues, yValues, values, counts };
+}
+
+async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    // Stop taking items once a task has failed
+    while (next < items.length && !failed) {
+      const item = items[next++];
+      try {
+        await task(item);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker)
+  );
+}
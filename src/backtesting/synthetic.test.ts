@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { MarketSnapshot } from '../types';
+import { SyntheticMarketDataProvider } from './synthetic';
+import type { SyntheticMarketConfig } from './synthetic';
+import { correlation } from '../utils/helpers';
+
+const START = new Date('2024-01-01T00:00:00Z');
+const END = new Date('2024-03-01T00:00:00Z');
+
+async function loadAll(config: SyntheticMarketConfig): Promise<Map<string, MarketSnapshot[]>> {
+  const provider = new SyntheticMarketDataProvider(config);
+  const markets = new Map<string, MarketSnapshot[]>();
+  for (const id of await provider.getMarketIds()) {
+    markets.set(id, await provider.getHistoricalData(id, START, END));
+  }
+  return markets;
+}
+
+describe('SyntheticMarketDataProvider', () => {
+  it('generates the same paths for a seed', async () => {
+    const a = await loadAll({ seed: 5, markets: 3 });
+    const b = await loadAll({ seed: 5, markets: 3 });
+    const c = await loadAll({ seed: 6, markets: 3 });
+
+    expect(a).toEqual(b);
+    expect(a.get('synthetic-1')).not.toEqual(c.get('synthetic-1'));
+  });
+
+  it('streams the same snapshots it returns', async () => {
+    const config = { seed: 9, markets: 4, clusters: 2, interval: '30m' };
+    const from = new Date('2024-01-10T00:00:00Z');
+    const to = new Date('2024-01-20T00:00:00Z');
+    const expected = await new SyntheticMarketDataProvider(config)
+      .getHistoricalData('synthetic-3', from, to);
+
+    const streamed: MarketSnapshot[] = [];
+    for await (const snapshot of new SyntheticMarketDataProvider(config)
+      .streamHistoricalData('synthetic-3', from, to)) {
+      streamed.push(snapshot);
+    }
+
+    expect(streamed.length).toBeGreaterThan(0);
+    expect(streamed).toEqual(expected);
+  });
+
+  it('keeps prices in range and resolves to the hidden outcome', async () => {
+    const provider = new SyntheticMarketDataProvider({ seed: 3, markets: 5, endDate: END });
+
+    for (const info of provider.getMarketInfo()) {
+      const snapshots = await provider.getHistoricalData(info.id, START, END);
+      for (const snapshot of snapshots) {
+        const [yes, no] = snapshot.outcomes;
+        expect(yes.price).toBeGreaterThanOrEqual(0);
+        expect(yes.price).toBeLessThanOrEqual(1);
+        expect(yes.price + no.price).toBeCloseTo(1, 10);
+      }
+
+      const last = snapshots[snapshots.length - 1];
+      expect(snapshots.slice(0, -1).some(snapshot => snapshot.resolved)).toBe(false);
+      expect(last.resolved).toBe(true);
+      expect(last.timestamp).toEqual(END);
+      expect(last.resolutionOutcome).toBe(info.resolutionOutcome);
+      expect(last.outcomes[0].price).toBe(info.resolutionOutcome === 'Yes' ? 1 : 0);
+    }
+  });
+
+  it('correlates markets within a cluster', async () => {
+    const provider = new SyntheticMarketDataProvider({
+      seed: 11,
+      markets: 4,
+      clusters: 2,
+      clusterCorrelation: 0.9,
+      newsProbability: 0,
+    });
+    const returns = new Map<string, number[]>();
+    for (const info of provider.getMarketInfo()) {
+      const prices = (await provider.getHistoricalData(info.id, START, END))
+        .slice(0, -1)
+        .map(snapshot => Math.log(snapshot.outcomes[0].price / (1 - snapshot.outcomes[0].price)));
+      returns.set(info.id, prices.slice(1).map((price, i) => price - prices[i]));
+    }
+
+    const clusters = provider.getMarketInfo().map(info => info.cluster);
+    expect(clusters).toEqual([0, 1, 0, 1]);
+
+    const within = correlation(returns.get('synthetic-1')!, returns.get('synthetic-3')!);
+    const across = correlation(returns.get('synthetic-1')!, returns.get('synthetic-2')!);
+    expect(within).toBeGreaterThan(0.5);
+    expect(Math.abs(across)).toBeLessThan(0.2);
+  });
+});
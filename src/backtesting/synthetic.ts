@@ -0,0 +1,325 @@
+/**
+ * EdgePoly Strategies - Synthetic Market Data
+ *
+ * Seeded MarketDataProvider producing prediction-market-like paths for
+ * tests and demos, with no data vendor required.
+ */
+
+import type { MarketSnapshot } from '../types';
+import type { MarketDataProvider } from './engine';
+import { SnapshotFanOut } from './stream';
+import { clamp, createRandom, parseInterval } from '../utils/helpers';
+
+export interface SyntheticMarketConfig {
+  seed?: number;
+  markets?: number; // number of markets (default: 5)
+  startDate?: Date;
+  endDate?: Date; // every market resolves here
+  interval?: number | string; // snapshot spacing (default: '1h')
+  clusters?: number; // groups of correlated markets (default: 1)
+  clusterCorrelation?: number; // 0-1 share of each shock common to a cluster (default: 0.5)
+  volatility?: number; // per-step volatility in log-odds (default: 0.05)
+  highVolatilityMultiplier?: number; // volatility scale in the high regime (default: 3)
+  regimeSwitchProbability?: number; // per step (default: 0.01)
+  newsProbability?: number; // per step, per cluster (default: 0.005)
+  newsImpact?: number; // stdev of a news jump in log-odds (default: 0.5)
+  driftStrength?: number; // pull towards the hidden resolution (default: 1)
+  baseVolume?: number; // traded per step in the calm regime (default: 500)
+  liquidity?: number; // default: 10000
+}
+
+export interface SyntheticMarketInfo {
+  id: string;
+  cluster: number;
+  initialProbability: number;
+  resolutionOutcome: 'Yes' | 'No';
+}
+
+interface MarketState {
+  info: SyntheticMarketInfo;
+  question: string;
+  logit: number;
+  target: number;
+  volume: number;
+  recentVolumes: number[];
+  prices: number[]; // the last day of prices
+}
+
+interface GeneratedMarket {
+  info: SyntheticMarketInfo;
+  snapshots: MarketSnapshot[];
+}
+
+interface SyntheticPaths {
+  markets: SyntheticMarketInfo[];
+  // One snapshot per market, in market order, for each step
+  steps: Generator<MarketSnapshot[]>;
+}
+
+// Log-odds of a near-certain price, where paths converge at resolution
+const RESOLVED_LOGIT = 6;
+
+export class SyntheticMarketDataProvider implements MarketDataProvider {
+  private config: Required<SyntheticMarketConfig>;
+  private generated?: Map<string, GeneratedMarket>;
+  private pass?: SnapshotFanOut;
+
+  constructor(config: SyntheticMarketConfig = {}) {
+    const startDate = config.startDate || new Date('2024-01-01T00:00:00Z');
+    this.config = {
+      seed: config.seed ?? 1,
+      markets: config.markets ?? 5,
+      startDate,
+      endDate: config.endDate || new Date(startDate.getTime() + 60 * 24 * 60 * 60 * 1000),
+      interval: config.interval ?? '1h',
+      clusters: Math.max(1, config.clusters ?? 1),
+      clusterCorrelation: clamp(config.clusterCorrelation ?? 0.5, 0, 1),
+      volatility: config.volatility ?? 0.05,
+      highVolatilityMultiplier: config.highVolatilityMultiplier ?? 3,
+      regimeSwitchProbability: config.regimeSwitchProbability ?? 0.01,
+      newsProbability: config.newsProbability ?? 0.005,
+      newsImpact: config.newsImpact ?? 0.5,
+      driftStrength: config.driftStrength ?? 1,
+      baseVolume: config.baseVolume ?? 500,
+      liquidity: config.liquidity ?? 10000,
+    };
+
+    if (this.config.endDate <= this.config.startDate) {
+      throw new Error('endDate must be after startDate');
+    }
+  }
+
+  async getHistoricalData(
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<MarketSnapshot[]> {
+    const market = this.generate().get(marketId);
+    if (!market) return [];
+
+    return market.snapshots.filter(
+      snapshot => snapshot.timestamp >= startDate && snapshot.timestamp <= endDate
+    );
+  }
+
+  /**
+   * Generates the paths step by step without keeping them. Every market
+   * shares one random stream, so streams opened together share one
+   * simulation of all markets, each taking its own market's snapshots.
+   */
+  streamHistoricalData(
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): AsyncGenerator<MarketSnapshot> {
+    if (!this.pass || this.pass.started) {
+      this.pass = new SnapshotFanOut(() => this.simulate());
+    }
+    return this.streamMarket(this.pass.open(marketId), marketId, startDate, endDate);
+  }
+
+  /**
+   * Paths are fully determined by the configuration
+   */
+  async cacheKey(): Promise<string> {
+    return `synthetic:${JSON.stringify(this.config)}`;
+  }
+
+  async getMarketIds(): Promise<string[]> {
+    return Array.from(this.generate().keys());
+  }
+
+  /**
+   * Cluster membership and the hidden resolution of each market, for
+   * asserting on strategy behaviour in tests
+   */
+  getMarketInfo(): SyntheticMarketInfo[] {
+    return Array.from(this.generate().values()).map(market => ({ ...market.info }));
+  }
+
+  private async *streamMarket(
+    { stream, close }: ReturnType<SnapshotFanOut['open']>,
+    marketId: string,
+    startDate: Date,
+    endDate: Date
+  ): AsyncGenerator<MarketSnapshot> {
+    try {
+      // Ids follow the market count, so unknown markets never start a pass
+      const index = Number(/^synthetic-([1-9]\d*)$/.exec(marketId)?.[1]);
+      if (!(index >= 1 && index <= this.config.markets)) return;
+
+      for await (const snapshot of stream) {
+        if (snapshot.timestamp > endDate) break;
+        if (snapshot.timestamp >= startDate) yield snapshot;
+      }
+    } finally {
+      close();
+    }
+  }
+
+  /**
+   * Every market's snapshots, step by step, from memory once generated
+   */
+  private async *simulate(): AsyncGenerator<MarketSnapshot> {
+    if (this.generated) {
+      for (const market of this.generated.values()) yield* market.snapshots;
+      return;
+    }
+    for (const step of this.createPaths().steps) yield* step;
+  }
+
+  private generate(): Map<string, GeneratedMarket> {
+    if (this.generated) return this.generated;
+
+    const { markets, steps } = this.createPaths();
+    const snapshots = markets.map((): MarketSnapshot[] => []);
+    for (const step of steps) {
+      step.forEach((snapshot, i) => snapshots[i].push(snapshot));
+    }
+
+    this.generated = new Map(markets.map((info, i) => [info.id, { info, snapshots: snapshots[i] }]));
+    return this.generated;
+  }
+
+  /**
+   * Draws each market's setup, then returns a generator for the steps
+   */
+  private createPaths(): SyntheticPaths {
+    const config = this.config;
+    const random = createRandom(config.seed);
+    const normal = () => {
+      // Box-Muller
+      const u = Math.max(random(), Number.EPSILON);
+      return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+    };
+
+    const step = parseInterval(config.interval);
+    const start = config.startDate.getTime();
+    const end = config.endDate.getTime();
+    const steps = Math.floor((end - start) / step);
+    const stepsPerDay = Math.max(1, Math.round((24 * 60 * 60 * 1000) / step));
+
+    const markets: MarketState[] = [];
+    for (let i = 0; i < config.markets; i++) {
+      const initialProbability = 0.2 + random() * 0.6;
+      const resolvesYes = random() < initialProbability;
+      markets.push({
+        info: {
+          id: `synthetic-${i + 1}`,
+          cluster: i % config.clusters,
+          initialProbability,
+          resolutionOutcome: resolvesYes ? 'Yes' : 'No',
+        },
+        question: `Will synthetic event ${i + 1} happen?`,
+        logit: Math.log(initialProbability / (1 - initialProbability)),
+        target: resolvesYes ? RESOLVED_LOGIT : -RESOLVED_LOGIT,
+        volume: 0,
+        recentVolumes: [],
+        prices: [],
+      });
+    }
+
+    const highVolatility = new Array(config.clusters).fill(false);
+    const newsIntensity = new Array(config.clusters).fill(0);
+    const common = Math.sqrt(config.clusterCorrelation);
+    const idiosyncratic = Math.sqrt(1 - config.clusterCorrelation);
+
+    function* run(): Generator<MarketSnapshot[]> {
+      for (let t = 0; t <= steps; t++) {
+        const remaining = steps - t;
+
+        // Cluster-wide regime, news and common shock
+        const clusterShocks: number[] = [];
+        const newsJumps: number[] = [];
+        for (let c = 0; c < config.clusters; c++) {
+          if (random() < config.regimeSwitchProbability) {
+            highVolatility[c] = !highVolatility[c];
+          }
+          newsIntensity[c] *= 0.8;
+          let jump = 0;
+          if (t > 0 && random() < config.newsProbability) {
+            jump = normal() * config.newsImpact;
+            newsIntensity[c] += 5;
+          }
+          newsJumps.push(jump);
+          clusterShocks.push(normal());
+        }
+
+        const snapshots: MarketSnapshot[] = [];
+        for (const market of markets) {
+          const cluster = market.info.cluster;
+          const volatility = config.volatility *
+            (highVolatility[cluster] ? config.highVolatilityMultiplier : 1);
+
+          if (t > 0) {
+            // Brownian-bridge style drift so the path converges on the outcome
+            const drift = remaining > 0
+              ? config.driftStrength * (market.target - market.logit) / (remaining + 1)
+              : market.target - market.logit;
+            const shock = volatility *
+              (common * clusterShocks[cluster] + idiosyncratic * normal());
+            // News moves the market towards its eventual outcome more often than not
+            const news = Math.abs(newsJumps[cluster]) *
+              (random() < 0.7 ? Math.sign(market.target) : -Math.sign(market.target));
+
+            market.logit = clamp(market.logit + drift + shock + news, -RESOLVED_LOGIT, RESOLVED_LOGIT);
+          }
+
+          const resolved = t === steps;
+          const price = resolved
+            ? (market.target > 0 ? 1 : 0)
+            : 1 / (1 + Math.exp(-market.logit));
+
+          const activity = (highVolatility[cluster] ? 2 : 1) * (1 + newsIntensity[cluster]);
+          const stepVolume = t > 0
+            ? config.baseVolume * activity * Math.exp(0.5 * normal())
+            : 0;
+          market.volume += stepVolume;
+          market.recentVolumes.push(stepVolume);
+          if (market.recentVolumes.length > stepsPerDay) market.recentVolumes.shift();
+          const volume24h = market.recentVolumes.reduce((a, b) => a + b, 0);
+
+          const previousPrice = market.prices.length > 0 ? market.prices[market.prices.length - 1] : price;
+          const dayAgoPrice = market.prices.length >= stepsPerDay
+            ? market.prices[market.prices.length - stepsPerDay]
+            : market.prices[0] ?? price;
+          market.prices.push(price);
+          if (market.prices.length > stepsPerDay) market.prices.shift();
+
+          snapshots.push({
+            id: market.info.id,
+            question: market.question,
+            outcomes: [
+              {
+                id: `${market.info.id}-yes`,
+                name: 'Yes',
+                price,
+                previousPrice,
+                priceChange24h: price - dayAgoPrice,
+                volume24h: volume24h * price,
+              },
+              {
+                id: `${market.info.id}-no`,
+                name: 'No',
+                price: 1 - price,
+                previousPrice: 1 - previousPrice,
+                priceChange24h: dayAgoPrice - price,
+                volume24h: volume24h * (1 - price),
+              },
+            ],
+            volume: market.volume,
+            volume24h,
+            liquidity: config.liquidity * (highVolatility[cluster] ? 0.6 : 1),
+            resolved,
+            resolutionOutcome: resolved ? market.info.resolutionOutcome : undefined,
+            endDate: config.endDate,
+            timestamp: new Date(start + t * step),
+          });
+        }
+        yield snapshots;
+      }
+    }
+
+    return { markets: markets.map(market => market.info), steps: run() };
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * EdgePoly Strategies - Walk-Forward Optimization
+ *
+ * Optimizes strategy parameters on rolling in-sample windows and evaluates
+ * the chosen parameters on the following out-of-sample window.
+ */
+
+import type {
+  IStrategy,
+  BacktestConfig,
+  BacktestResult,
+  EquityPoint,
+  PerformanceMetrics,
+} from '../types';
+import type { BacktestEngine } from './engine';
+import {
+  getParameterSpace,
+  buildParameterGrid,
+  countCombinations,
+} from './parameters';
+import type { ParameterSet, ParameterSpaceOptions } from './parameters';
+import {
+  maxDrawdown,
+  sharpeRatio,
+  inferPeriodsPerYear,
+  toPeriodicRate,
+  createRandom,
+} from '../utils/helpers';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type OptimizationObjective = keyof PerformanceMetrics;
+
+export type OptimizationDirection = 'maximize' | 'minimize';
+
+export interface WalkForwardConfig {
+  inSampleDays: number;
+  outOfSampleDays: number;
+  stepDays?: number; // default: outOfSampleDays
+  anchored?: boolean; // grow the in-sample window from startDate
+  objective?: OptimizationObjective; // default: sharpeRatio
+  direction?: OptimizationDirection;
+  parameterSpace?: ParameterSpaceOptions; // default: every parameter
+  maxCombinations?: number; // candidates per window; larger spaces are sampled (default: 500)
+  seed?: number; // for sampling a space larger than maxCombinations (default: 1)
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSampleStart: Date;
+  inSampleEnd: Date;
+  outOfSampleStart: Date;
+  outOfSampleEnd: Date;
+  parameters: ParameterSet;
+  inSampleScore: number;
+  outOfSampleScore: number;
+  outOfSampleResult: BacktestResult;
+}
+
+/**
+ * A window skipped because the strategy rejected every candidate
+ */
+export interface WalkForwardFailure {
+  inSampleStart: Date;
+  inSampleEnd: Date;
+  outOfSampleStart: Date;
+  outOfSampleEnd: Date;
+  error: string; // first rejection
+}
+
+export interface ParameterStability {
+  values: unknown[];
+  mostCommon: unknown;
+  consistency: number; // share of windows that chose mostCommon
+  mean?: number;
+  stdDev?: number;
+  coefficientOfVariation?: number;
+}
+
+export interface WalkForwardResult {
+  windows: WalkForwardWindow[];
+  failures: WalkForwardFailure[];
+  equityCurve: EquityPoint[]; // stitched out-of-sample curve
+  totalReturn: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  totalTrades: number;
+  efficiency: number; // mean OOS score / mean IS score
+  parameterStability: Record<string, ParameterStability>;
+}
+
+export class WalkForwardOptimizer {
+  private engine: BacktestEngine;
+  private createStrategy: () => IStrategy;
+
+  /**
+   * @param createStrategy factory returning a fresh strategy per run, so
+   * state from one window never leaks into the next
+   */
+  constructor(engine: BacktestEngine, createStrategy: () => IStrategy) {
+    this.engine = engine;
+    this.createStrategy = createStrategy;
+  }
+
+  async run(
+    config: BacktestConfig,
+    walkForward: WalkForwardConfig
+  ): Promise<WalkForwardResult> {
+    const objective = walkForward.objective || 'sharpeRatio';
+    const direction = walkForward.direction || 'maximize';
+
+    const space = getParameterSpace(
+      this.createStrategy().config.parameters,
+      walkForward.parameterSpace
+    );
+    const maxCombinations = walkForward.maxCombinations || 500;
+    const grid = countCombinations(space) > maxCombinations
+      ? sampleParameterGrid(space, maxCombinations, createRandom(walkForward.seed ?? 1))
+      : buildParameterGrid(space);
+
+    const windows: WalkForwardWindow[] = [];
+    const failures: WalkForwardFailure[] = [];
+    let capital = config.initialCapital;
+
+    for (const bounds of this.buildWindows(config, walkForward)) {
+      // Search in-sample
+      let best: { parameters: ParameterSet; score: number } | null = null;
+      let firstError: string | undefined;
+      for (const candidate of grid) {
+        const parameters = { ...config.parameters, ...candidate };
+        const run = await runCandidate(this.engine, this.createStrategy(), {
+          ...config,
+          parameters,
+          startDate: bounds.inSampleStart,
+          endDate: bounds.inSampleEnd,
+        });
+        if ('error' in run) {
+          firstError ??= run.error;
+          continue;
+        }
+
+        const score = scoreResult(run.result, objective, direction);
+        if (!best || score > best.score) {
+          best = { parameters, score };
+        }
+      }
+      if (!best) {
+        failures.push({ ...bounds, error: firstError ?? 'No parameter candidates' });
+        continue;
+      }
+
+      // Evaluate out-of-sample, compounding capital across windows
+      const outOfSampleResult = await this.engine.run(this.createStrategy(), {
+        ...config,
+        parameters: best.parameters,
+        startDate: bounds.outOfSampleStart,
+        endDate: bounds.outOfSampleEnd,
+        initialCapital: capital,
+      });
+      const lastPoint = outOfSampleResult.equityCurve[outOfSampleResult.equityCurve.length - 1];
+      capital = lastPoint?.equity ?? capital;
+
+      windows.push({
+        index: windows.length,
+        ...bounds,
+        parameters: best.parameters,
+        inSampleScore: this.orient(best.score, direction),
+        outOfSampleScore: this.orient(scoreResult(outOfSampleResult, objective, direction), direction),
+        outOfSampleResult,
+      });
+    }
+
+    if (windows.length === 0) {
+      throw new Error(failures.length > 0
+        ? `The strategy rejected every candidate in every window: ${failures[0].error}`
+        : 'Walk-forward produced no windows; check the date range and window sizes');
+    }
+
+    return this.summarize(config, windows, failures, Object.keys(space));
+  }
+
+  private buildWindows(
+    config: BacktestConfig,
+    walkForward: WalkForwardConfig
+  ): Array<Pick<WalkForwardWindow, 'inSampleStart' | 'inSampleEnd' | 'outOfSampleStart' | 'outOfSampleEnd'>> {
+    const start = config.startDate.getTime();
+    const end = config.endDate.getTime();
+    const inSample = walkForward.inSampleDays * DAY_MS;
+    const outOfSample = walkForward.outOfSampleDays * DAY_MS;
+    const step = (walkForward.stepDays || walkForward.outOfSampleDays) * DAY_MS;
+
+    if (inSample <= 0 || outOfSample <= 0 || step <= 0) {
+      throw new Error('Walk-forward window sizes must be positive');
+    }
+
+    const windows = [];
+    for (let offset = 0; start + offset + inSample < end; offset += step) {
+      const inSampleStart = walkForward.anchored ? start : start + offset;
+      const outOfSampleStart = start + offset + inSample;
+
+      windows.push({
+        inSampleStart: new Date(inSampleStart),
+        inSampleEnd: new Date(outOfSampleStart),
+        outOfSampleStart: new Date(outOfSampleStart),
+        outOfSampleEnd: new Date(Math.min(outOfSampleStart + outOfSample, end)),
+      });
+    }
+
+    return windows;
+  }
+
+  private orient(score: number, direction: OptimizationDirection): number {
+    return direction === 'maximize' ? score : -score;
+  }
+
+  private summarize(
+    config: BacktestConfig,
+    windows: WalkForwardWindow[],
+    failures: WalkForwardFailure[],
+    parameterKeys: string[]
+  ): WalkForwardResult {
+    const equityCurve = stitchEquityCurves(
+      windows.map(w => w.outOfSampleResult.equityCurve)
+    );
+    const equities = equityCurve.map(e => e.equity);
+    const returns = equities.slice(1).map((e, i) =>
+      equities[i] > 0 ? (e - equities[i]) / equities[i] : 0
+    );
+    const finalEquity = equities[equities.length - 1] ?? config.initialCapital;
+    const periodsPerYear = config.periodsPerYear ??
+      inferPeriodsPerYear(equityCurve.map(e => e.timestamp));
+    const riskFreeRate = toPeriodicRate(config.riskFreeRate || 0, periodsPerYear);
+
+    const finite = (values: number[]) => values.filter(v => Number.isFinite(v));
+    const inSampleScores = finite(windows.map(w => w.inSampleScore));
+    const outOfSampleScores = finite(windows.map(w => w.outOfSampleScore));
+    const mean = (values: number[]) =>
+      values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+    const meanInSample = mean(inSampleScores);
+
+    const parameterStability: Record<string, ParameterStability> = {};
+    for (const key of parameterKeys) {
+      parameterStability[key] = measureStability(windows.map(w => w.parameters[key]));
+    }
+
+    return {
+      windows,
+      failures,
+      equityCurve,
+      totalReturn: config.initialCapital > 0
+        ? (finalEquity - config.initialCapital) / config.initialCapital
+        : 0,
+      maxDrawdown: maxDrawdown(equities).percent,
+      sharpeRatio: sharpeRatio(returns, riskFreeRate, periodsPerYear),
+      totalTrades: windows.reduce((sum, w) => sum + w.outOfSampleResult.trades.length, 0),
+      efficiency: meanInSample !== 0 ? mean(outOfSampleScores) / meanInSample : 0,
+      parameterStability,
+    };
+  }
+}
+
+/**
+ * Score a result on an objective so that higher is always better
+ */
+export function scoreResult(
+  result: BacktestResult,
+  objective: OptimizationObjective,
+  direction: OptimizationDirection = 'maximize'
+): number {
+  const value = result.metrics[objective] ?? 0;
+  if (Number.isNaN(value)) return -Infinity;
+  return direction === 'maximize' ? value : -value;
+}
+
+/**
+ * Backtest a candidate parameter set, or report the strategy's rejection of
+ * it. The strategy is initialized up front so a rejection is told apart from
+ * provider and engine errors, which propagate; the engine then initializes
+ * the same instance again as the run starts.
+ */
+export async function runCandidate(
+  engine: BacktestEngine,
+  strategy: IStrategy,
+  config: BacktestConfig
+): Promise<{ result: BacktestResult } | { error: string }> {
+  try {
+    await strategy.initialize(config.parameters);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+  return { result: await engine.run(strategy, config) };
+}
+
+/**
+ * Concatenate consecutive equity curves, recomputing drawdown across the
+ * joined series
+ */
+export function stitchEquityCurves(curves: EquityPoint[][]): EquityPoint[] {
+  const stitched: EquityPoint[] = [];
+  let peak = -Infinity;
+
+  for (const curve of curves) {
+    for (const point of curve) {
+      peak = Math.max(peak, point.equity);
+      const drawdown = peak - point.equity;
+      stitched.push({
+        ...point,
+        drawdown,
+        drawdownPercent: peak > 0 ? drawdown / peak : 0,
+      });
+    }
+  }
+
+  return stitched;
+}
+
+/**
+ * Up to count distinct combinations drawn uniformly from a parameter space
+ */
+function sampleParameterGrid(
+  space: Record<string, unknown[]>,
+  count: number,
+  random: () => number
+): ParameterSet[] {
+  const seen = new Set<string>();
+  const grid: ParameterSet[] = [];
+
+  for (let attempt = 0; grid.length < count && attempt < count * 10; attempt++) {
+    const candidate: ParameterSet = {};
+    for (const [key, values] of Object.entries(space)) {
+      candidate[key] = values[Math.floor(random() * values.length)];
+    }
+
+    const key = JSON.stringify(candidate);
+    if (!seen.has(key)) {
+      seen.add(key);
+      grid.push(candidate);
+    }
+  }
+
+  return grid;
+}
+
+function measureStability(values: unknown[]): ParameterStability {
+  const counts = new Map<unknown, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+
+  let mostCommon: unknown = values[0];
+  let mostCommonCount = 0;
+  for (const [value, count] of counts) {
+    if (count > mostCommonCount) {
+      mostCommon = value;
+      mostCommonCount = count;
+    }
+  }
+
+  const stability: ParameterStability = {
+    values,
+    mostCommon,
+    consistency: values.length > 0 ? mostCommonCount / values.length : 0,
+  };
+
+  if (values.length > 0 && values.every(v => typeof v === 'number')) {
+    const numbers = values as number[];
+    const mean = numbers.reduce((a, b) => a + b, 0) / numbers.length;
+    const variance = numbers.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / numbers.length;
+    const stdDev = Math.sqrt(variance);
+
+    stability.mean = mean;
+    stability.stdDev = stdDev;
+    stability.coefficientOfVariation = mean !== 0 ? stdDev / Math.abs(mean) : 0;
+  }
+
+  return stability;
+}
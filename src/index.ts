@@ -34,6 +34,8 @@
 // ============================================================================
 
 export { BaseStrategy } from './strategies/base';
+export { StrategyClasses } from './strategies';
+export type { StrategyKey } from './strategies';
 
 export { 
   MomentumStrategy, 
@@ -67,14 +69,86 @@ export {
 // ============================================================================
 
 export { BacktestEngine } from './backtesting/engine';
-export type { MarketDataProvider } from './backtesting/engine';
+export type { MarketDataProvider, BacktestEngineOptions } from './backtesting/engine';
+export { FlatSlippageFillModel, OrderBookFillModel } from './backtesting/fills';
+export type {
+  FillModel,
+  FillRequest,
+  FillResult,
+  OrderBookFillOptions
+} from './backtesting/fills';
+export {
+  getParameterValues,
+  getParameterSpace,
+  countCombinations,
+  buildParameterGrid,
+  sampleParameterSet,
+} from './backtesting/parameters';
+export type { ParameterSet, ParameterSpaceOptions } from './backtesting/parameters';
+export { WalkForwardOptimizer, stitchEquityCurves, scoreResult } from './backtesting/walk-forward';
+export type {
+  OptimizationObjective,
+  OptimizationDirection,
+  WalkForwardConfig,
+  WalkForwardWindow,
+  WalkForwardFailure,
+  WalkForwardResult,
+  ParameterStability,
+} from './backtesting/walk-forward';
+export { ParameterSweep, buildHeatmap } from './backtesting/sweep';
+export type {
+  ParameterSweepConfig,
+  ParameterSweepResult,
+  SweepRun,
+  SweepFailure,
+  HeatmapMatrix,
+} from './backtesting/sweep';
+export { runMonteCarlo } from './backtesting/monte-carlo';
+export { toJSON, tradesToCSV, equityCurveToCSV } from './backtesting/export';
+export { toHTMLReport, toMarkdownReport } from './backtesting/report';
+export type { ReportOptions } from './backtesting/report';
+export {
+  BenchmarkTracker,
+  calculateBenchmarkMetrics,
+} from './backtesting/benchmark';
+export type { BenchmarkMetrics } from './backtesting/benchmark';
+export { calculateTradeBreakdowns, summarizeTrades } from './backtesting/breakdowns';
+export type { BreakdownOptions } from './backtesting/breakdowns';
+export { mergeSnapshotStreams, streamSnapshots } from './backtesting/stream';
+export {
+  calculateAllocationWeights,
+  planRebalance,
+  combineEquityCurves,
+  timeWeightedCurve,
+  normalizeWeights,
+} from './backtesting/portfolio';
+export type {
+  AllocationMethod,
+  PortfolioSleeve,
+  AllocationConfig,
+  SleeveResult,
+  AllocationSnapshot,
+  PortfolioBacktestResult,
+} from './backtesting/portfolio';
+export { SyntheticMarketDataProvider } from './backtesting/synthetic';
+export type { SyntheticMarketConfig, SyntheticMarketInfo } from './backtesting/synthetic';
+export type {
+  MonteCarloConfig,
+  MonteCarloResult,
+  DistributionStats,
+} from './backtesting/monte-carlo';
 
 // ============================================================================
 // Signal Exports
 // ============================================================================
 
-export { SignalAggregator, SignalFilter } from './signals';
-export type { AggregatedSignal, AggregatorConfig, FilterConfig } from './signals';
+export { SignalAggregator, SignalFilter, AggregatorStrategy } from './signals';
+export type {
+  AggregatedSignal,
+  AggregatorConfig,
+  AggregatorStrategyOptions,
+  FilterConfig,
+} from './signals';
 
 // ============================================================================
 // Indicator Exports
@@ -111,6 +185,12 @@ export {
   calculateADX,
   calculateTrendStrength,
   
+  // Bar (OHLC)
+  calculateBarATR,
+  calculateBarADX,
+  calculateBarStochastic,
+  calculateBarWilliamsR,
+
   // Utility
   percentChange,
   logReturn,
@@ -124,6 +204,7 @@ export {
 
 export {
   generateId,
+  createRandom,
   formatCurrency,
   formatPercentage,
   formatCompact,
@@ -131,6 +212,7 @@ export {
   round,
   sleep,
   timeDiff,
+  parseInterval,
   deepClone,
   pick,
   omit,
@@ -139,10 +221,19 @@ export {
   percentile,
   sharpeRatio,
   sortinoRatio,
+  inferPeriodsPerYear,
+  toPeriodicRate,
+  correlation,
   maxDrawdown,
   cagr,
 } from './utils/helpers';
 
+export type { ResampleInterval } from './utils/helpers';
+
+export { SystemClock, SimulatedClock, systemClock } from './utils/clock';
+export { buildPriceBars } from './utils/bars';
+export type { PriceBarOptions } from './utils/bars';
+
 // ============================================================================
 // Type Exports
 // ============================================================================
@@ -154,6 +245,7 @@ export type {
   StrategyCategory,
   RiskLevel,
   TimeHorizon,
+  Clock,
   
   // Strategy Types
   StrategyConfig,
@@ -167,6 +259,9 @@ export type {
   SignalType,
   SignalStrength,
   SignalResult,
+  ExitRules,
+  TrailingStopRule,
+  TakeProfitLevel,
   
   // Market Types
   MarketSnapshot,
@@ -182,12 +277,17 @@ export type {
   
   // Backtest Types
   BacktestConfig,
+  BenchmarkConfig,
+  BenchmarkPoint,
   BacktestResult,
   BacktestSummary,
   BacktestTrade,
+  TradeExitReason,
   EquityPoint,
   DrawdownPeriod,
   MonthlyReturn,
+  TradeBreakdown,
+  TradeBreakdowns,
   PerformanceMetrics,
   
   // Portfolio Types
@@ -214,9 +314,11 @@ import { meanReversionStrategy } from './strategies/mean-reversion';
 import { narrativeCascadeStrategy } from './strategies/narrative-cascade';
 import { smartDCAStrategy } from './strategies/smart-dca';
 import { volatilityBreakoutStrategy } from './strategies/volatility-breakout';
+import type { StrategyKey } from './strategies';
+import type { IStrategy } from './types';
 
 /**
- * Registry of all available strategies
+ * Registry of all available strategies, one instance per StrategyClasses key
  */
 export const StrategyRegistry = {
   momentum: momentumStrategy,
@@ -224,7 +326,7 @@ export const StrategyRegistry = {
   narrativeCascade: narrativeCascadeStrategy,
   smartDCA: smartDCAStrategy,
   volatilityBreakout: volatilityBreakoutStrategy,
-};
+} satisfies Record<StrategyKey, IStrategy>;
 
 /**
  * Get a strategy by ID
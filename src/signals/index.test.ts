@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AggregatorStrategy, SignalAggregator } from './index';
+import { MeanReversionStrategy } from '../strategies/mean-reversion';
+import { MomentumStrategy } from '../strategies/momentum';
+
+function ensemble() {
+  const momentum = new MomentumStrategy();
+  const reversion = new MeanReversionStrategy();
+  const aggregator = new SignalAggregator();
+  aggregator.addStrategy(momentum, 2);
+  aggregator.addStrategy(reversion, 1);
+  return { momentum, reversion, aggregator, strategy: new AggregatorStrategy(aggregator) };
+}
+
+describe('AggregatorStrategy', () => {
+  it('initializes each strategy with the parameters keyed by its id', async () => {
+    const { momentum, reversion, aggregator, strategy } = ensemble();
+    const momentumInit = vi.spyOn(momentum, 'initialize');
+    const reversionInit = vi.spyOn(reversion, 'initialize');
+
+    await strategy.initialize({ minConsensus: 0.6, 'momentum-v1': { rsiPeriod: 10 } });
+
+    expect(momentumInit).toHaveBeenCalledWith({ rsiPeriod: 10 });
+    expect(reversionInit).toHaveBeenCalledWith({});
+    expect(aggregator.getConfig()).toMatchObject({ minConsensus: 0.6 });
+  });
+
+  it('rejects parameters a strategy does not accept', async () => {
+    const { strategy } = ensemble();
+
+    await expect(strategy.initialize({ 'momentum-v1': { rsiPeriod: 2 } }))
+      .rejects.toThrow("Parameter 'rsiPeriod' must be >= 5");
+  });
+
+  it('describes the weighted ensemble in its config', () => {
+    const { momentum, reversion, strategy } = ensemble();
+
+    expect(strategy.config).toMatchObject({
+      id: 'aggregator',
+      category: 'portfolio',
+      timeHorizon: momentum.config.timeHorizon,
+      metadata: { strategies: [{ id: 'momentum-v1', weight: 2 }, { id: 'mean-reversion-v1', weight: 1 }] },
+    });
+    expect(strategy.config.winRate).toBeCloseTo((momentum.config.winRate * 2 + reversion.config.winRate) / 3, 12);
+  });
+});
@@ -4,11 +4,25 @@
  * Combines signals from multiple strategies for consensus-based trading.
  */
 
-import type { Signal, SignalType, IStrategy, MarketSnapshot, MarketId } from '../types';
+import type {
+  Signal,
+  SignalType,
+  SignalResult,
+  IStrategy,
+  StrategyConfig,
+  RiskLevel,
+  MarketSnapshot,
+  MarketAnalysis,
+  MarketId,
+  Clock,
+} from '../types';
+import { BaseStrategy } from '../strategies/base';
 import { generateId } from '../utils/helpers';
+import { systemClock } from '../utils/clock';
 
 export interface AggregatedSignal extends Signal {
   sourceStrategies: string[];
+  sourceSignals: Signal[]; // the strategies' own signals, in sourceStrategies order
   consensus: number; // 0-1
   aggregatedConfidence: number;
 }
@@ -23,8 +37,10 @@ export interface AggregatorConfig {
 export class SignalAggregator {
   private strategies: Map<string, { strategy: IStrategy; weight: number }> = new Map();
   private config: AggregatorConfig;
+  private clock: Clock;
 
-  constructor(config: Partial<AggregatorConfig> = {}) {
+  constructor(config: Partial<AggregatorConfig> = {}, clock: Clock = systemClock) {
+    this.clock = clock;
     this.config = {
       minConsensus: config.minConsensus || 0.5,
       weightByPerformance: config.weightByPerformance ?? true,
@@ -33,6 +49,27 @@ export class SignalAggregator {
     };
   }
 
+  /**
+   * Update the consensus rules
+   */
+  configure(config: Partial<AggregatorConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): AggregatorConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Replace the time source of the aggregator and all its strategies
+   */
+  setClock(clock: Clock): void {
+    this.clock = clock;
+    for (const { strategy } of this.strategies.values()) {
+      strategy.setClock?.(clock);
+    }
+  }
+
   /**
    * Add a strategy to the aggregator
    */
@@ -210,8 +247,9 @@ export class SignalAggregator {
       takeProfit: this.aggregateTakeProfit(signals, type),
       reasoning,
       indicators: combinedIndicators,
-      timestamp: new Date(),
+      timestamp: this.clock.now(),
       sourceStrategies: signals.map(s => s.strategyId),
+      sourceSignals: signals.map(s => s.signal),
       consensus,
       aggregatedConfidence: avgConfidence * consensus,
     };
@@ -262,6 +300,13 @@ export class SignalAggregator {
     return total;
   }
 
+  /**
+   * Get a registered strategy instance
+   */
+  getStrategy(strategyId: string): IStrategy | undefined {
+    return this.strategies.get(strategyId)?.strategy;
+  }
+
   /**
    * Get all registered strategies
    */
@@ -287,8 +332,10 @@ export interface FilterConfig {
 
 export class SignalFilter {
   private config: FilterConfig;
+  private clock: Clock;
 
-  constructor(config: FilterConfig = {}) {
+  constructor(config: FilterConfig = {}, clock: Clock = systemClock) {
+    this.clock = clock;
     this.config = {
       minConfidence: config.minConfidence || 0.5,
       minStrength: config.minStrength || 2,
@@ -298,6 +345,8 @@ export class SignalFilter {
   }
 
   filter(signals: Signal[]): Signal[] {
+    const now = this.clock.now();
+
     return signals.filter(signal => {
       // Confidence check
       if (signal.confidence < (this.config.minConfidence || 0)) {
@@ -317,14 +366,14 @@ export class SignalFilter {
 
       // Age check
       if (this.config.maxAge) {
-        const age = Date.now() - signal.timestamp.getTime();
+        const age = now.getTime() - signal.timestamp.getTime();
         if (age > this.config.maxAge) {
           return false;
         }
       }
 
       // Expiration check
-      if (signal.expiresAt && new Date() > signal.expiresAt) {
+      if (signal.expiresAt && now > signal.expiresAt) {
         return false;
       }
 
@@ -346,3 +395,234 @@ export class SignalFilter {
     });
   }
 }
+
+// ============================================================================
+// Aggregator Strategy
+// ============================================================================
+
+export interface AggregatorStrategyOptions {
+  id?: string; // default: 'aggregator'
+  name?: string;
+}
+
+interface SourceSignal {
+  strategy: IStrategy;
+  signal: Signal;
+  weight: number;
+}
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high', 'very_high'];
+
+/**
+ * Runs a configured SignalAggregator as a strategy, so consensus trading can
+ * be backtested like any single strategy. Validation and sizing defer to the
+ * strategies behind each signal, and trade results are passed back to them.
+ * Add the strategies to the aggregator before wrapping it.
+ */
+export class AggregatorStrategy extends BaseStrategy {
+  readonly config: StrategyConfig;
+  private aggregator: SignalAggregator;
+
+  constructor(aggregator: SignalAggregator, options: AggregatorStrategyOptions = {}) {
+    super();
+    this.aggregator = aggregator;
+
+    const entries = this.entries();
+    const totalWeight = entries.reduce((sum, e) => sum + e.weight, 0) || 1;
+    const weighted = (value: (config: StrategyConfig) => number) =>
+      entries.reduce((sum, e) => sum + value(e.strategy.config) * e.weight, 0) / totalWeight;
+    const heaviest = [...entries].sort((a, b) => b.weight - a.weight)[0];
+    const consensus = aggregator.getConfig();
+
+    this.config = {
+      id: options.id || 'aggregator',
+      name: options.name || 'Signal Aggregator',
+      description: `Trades the weighted consensus of ${entries.map(e => e.strategy.config.name).join(', ') || 'no strategies'}.`,
+      category: 'portfolio',
+      riskLevel: entries.reduce<RiskLevel>(
+        (level, e) => (RISK_LEVELS.indexOf(e.strategy.config.riskLevel) > RISK_LEVELS.indexOf(level)
+          ? e.strategy.config.riskLevel
+          : level),
+        'low'
+      ),
+      timeHorizon: heaviest ? heaviest.strategy.config.timeHorizon : 'swing',
+      minCapital: Math.max(0, ...entries.map(e => e.strategy.config.minCapital)),
+      expectedReturn: {
+        annual: weighted(config => config.expectedReturn.annual),
+        monthly: weighted(config => config.expectedReturn.monthly),
+      },
+      maxDrawdown: Math.max(0, ...entries.map(e => e.strategy.config.maxDrawdown)),
+      winRate: weighted(config => config.winRate),
+      parameters: {
+        minConsensus: {
+          type: 'number',
+          default: consensus.minConsensus,
+          min: 0,
+          max: 1,
+          step: 0.05,
+          description: 'Minimum weighted share of strategies agreeing on a signal',
+        },
+        requireUnanimous: {
+          type: 'boolean',
+          default: consensus.requireUnanimous,
+          description: 'Only trade when every strategy agrees',
+        },
+        maxSignalsPerMarket: {
+          type: 'number',
+          default: consensus.maxSignalsPerMarket,
+          min: 1,
+          max: 2,
+          description: 'Maximum aggregated signals per market and step',
+        },
+        scaleByConsensus: {
+          type: 'boolean',
+          default: false,
+          description: 'Scale position sizes by the consensus behind each signal',
+        },
+      },
+      metadata: {
+        strategies: entries.map(e => ({ id: e.strategy.config.id, weight: e.weight })),
+      },
+    };
+  }
+
+  /**
+   * Applies the consensus parameters to the aggregator and initializes every
+   * strategy with the parameters keyed by its id, e.g.
+   * `{ minConsensus: 0.6, 'momentum-v1': { rsiPeriod: 10 } }`.
+   * Strategies without an entry use their defaults.
+   */
+  protected async onInitialize(): Promise<void> {
+    this.aggregator.configure({
+      minConsensus: this.getParameter<number>('minConsensus'),
+      requireUnanimous: this.getParameter<boolean>('requireUnanimous'),
+      maxSignalsPerMarket: this.getParameter<number>('maxSignalsPerMarket'),
+    });
+
+    for (const { strategy } of this.entries()) {
+      const params = this.parameters[strategy.config.id];
+      await strategy.initialize(
+        params && typeof params === 'object' ? params as Record<string, unknown> : {}
+      );
+    }
+  }
+
+  reset(): void {
+    super.reset();
+    for (const { strategy } of this.entries()) {
+      strategy.reset();
+    }
+  }
+
+  setClock(clock: Clock): void {
+    super.setClock(clock);
+    this.aggregator.setClock(clock);
+  }
+
+  /**
+   * Weighted score and recommendation vote of all strategies; the remaining
+   * analysis comes from the most heavily weighted strategy
+   */
+  async analyze(market: MarketSnapshot): Promise<MarketAnalysis> {
+    const entries = this.entries();
+    if (entries.length === 0) throw new Error('The aggregator has no strategies');
+
+    const analyses: MarketAnalysis[] = [];
+    for (const { strategy } of entries) {
+      analyses.push(await strategy.analyze(market));
+    }
+
+    const totalWeight = entries.reduce((sum, e) => sum + e.weight, 0) || 1;
+    const votes = new Map<SignalType, number>();
+    let score = 0;
+    analyses.forEach((analysis, i) => {
+      score += analysis.score * entries[i].weight / totalWeight;
+      votes.set(analysis.recommendation, (votes.get(analysis.recommendation) || 0) + entries[i].weight);
+    });
+
+    const heaviest = entries.reduce((best, e, i) => (e.weight > entries[best].weight ? i : best), 0);
+    const recommendation = [...votes.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+    return { ...analyses[heaviest], score, recommendation };
+  }
+
+  async generateSignals(markets: MarketSnapshot[]): Promise<Signal[]> {
+    const aggregated = await this.aggregator.generateSignals(markets);
+    const signals = aggregated.map(signal => ({ ...signal, strategyId: this.config.id }));
+    this.signals.push(...signals);
+    return signals;
+  }
+
+  /**
+   * A signal stays valid while the strategies that still validate their own
+   * signals carry the required consensus
+   */
+  protected async onValidateSignal(signal: Signal): Promise<boolean> {
+    const sources = this.sourcesOf(signal);
+    if (sources.length === 0) return false;
+
+    const { minConsensus, requireUnanimous } = this.aggregator.getConfig();
+    const totalWeight = this.aggregator.getStrategies().reduce((sum, s) => sum + s.weight, 0);
+    let validWeight = 0;
+    let validCount = 0;
+
+    for (const source of sources) {
+      if (await source.strategy.validateSignal(source.signal)) {
+        validWeight += source.weight;
+        validCount++;
+      }
+    }
+
+    if (requireUnanimous && validCount < sources.length) return false;
+    return totalWeight > 0 && validWeight / totalWeight >= minConsensus;
+  }
+
+  /**
+   * Weighted average of the sizes each strategy gives its own signal
+   */
+  getPositionSize(signal: Signal, capital: number): number {
+    const sources = this.sourcesOf(signal);
+    const totalWeight = sources.reduce((sum, s) => sum + s.weight, 0);
+    if (totalWeight <= 0) return super.getPositionSize(signal, capital);
+
+    let size = sources.reduce(
+      (sum, s) => sum + s.strategy.getPositionSize(s.signal, capital) * s.weight,
+      0
+    ) / totalWeight;
+    if (this.getParameter<boolean>('scaleByConsensus')) {
+      size *= (signal as Partial<AggregatedSignal>).consensus ?? 1;
+    }
+
+    return Math.round(size * 100) / 100;
+  }
+
+  protected onSignalResult(signal: Signal, result: SignalResult): void {
+    for (const source of this.sourcesOf(signal)) {
+      source.strategy.onSignalExecuted(source.signal, { ...result, signalId: source.signal.id });
+    }
+  }
+
+  /**
+   * Positions are shared, so the busiest strategy's exposure stands for the
+   * ensemble
+   */
+  protected calculateCurrentExposure(): number {
+    return Math.max(0, ...this.entries().map(e => e.strategy.getStatus().currentExposure));
+  }
+
+  private entries(): Array<{ strategy: IStrategy; weight: number }> {
+    return this.aggregator.getStrategies().flatMap(({ id, weight }) => {
+      const strategy = this.aggregator.getStrategy(id);
+      return strategy ? [{ strategy, weight }] : [];
+    });
+  }
+
+  private sourcesOf(signal: Signal): SourceSignal[] {
+    const weights = new Map(this.aggregator.getStrategies().map(s => [s.id, s.weight]));
+
+    return ((signal as Partial<AggregatedSignal>).sourceSignals || []).flatMap(source => {
+      const strategy = this.aggregator.getStrategy(source.strategyId);
+      return strategy ? [{ strategy, signal: source, weight: weights.get(source.strategyId) || 0 }] : [];
+    });
+  }
+}
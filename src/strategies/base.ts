@@ -14,8 +14,10 @@ import type {
   SignalResult,
   SignalType,
   SignalStrength,
+  Clock,
 } from '../types';
 import { generateId } from '../utils/helpers';
+import { systemClock } from '../utils/clock';
 
 export abstract class BaseStrategy implements IStrategy {
   abstract readonly config: StrategyConfig;
@@ -25,6 +27,7 @@ export abstract class BaseStrategy implements IStrategy {
   protected signals: Signal[] = [];
   protected results: SignalResult[] = [];
   protected activePositions = 0;
+  protected clock: Clock = systemClock;
 
   // ============================================================================
   // Lifecycle Methods
@@ -90,6 +93,13 @@ export abstract class BaseStrategy implements IStrategy {
     this.activePositions = 0;
   }
 
+  /**
+   * Replace the time source (e.g. with a simulated clock during backtests)
+   */
+  setClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
   // ============================================================================
   // Analysis Methods
   // ============================================================================
@@ -104,7 +114,7 @@ export abstract class BaseStrategy implements IStrategy {
     if (signal.strength < 2) return false;
     
     // Check if expired
-    if (signal.expiresAt && new Date() > signal.expiresAt) return false;
+    if (signal.expiresAt && this.now() > signal.expiresAt) return false;
 
     // Strategy-specific validation
     return this.onValidateSignal(signal);
@@ -226,7 +236,7 @@ export abstract class BaseStrategy implements IStrategy {
       confidence,
       reasoning: options.reasoning || '',
       indicators: options.indicators || {},
-      timestamp: new Date(),
+      timestamp: this.now(),
       ...options,
     };
 
@@ -234,6 +244,10 @@ export abstract class BaseStrategy implements IStrategy {
     return signal;
   }
 
+  protected now(): Date {
+    return this.clock.now();
+  }
+
   protected getParameter<T>(key: string): T {
     return this.parameters[key] as T;
   }
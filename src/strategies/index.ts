@@ -10,3 +10,22 @@ export type { NarrativeLink } from './narrative-cascade';
 export { SmartDCAStrategy, smartDCAStrategy } from './smart-dca';
 export type { DCASchedule } from './smart-dca';
 export { VolatilityBreakoutStrategy, volatilityBreakoutStrategy } from './volatility-breakout';
+
+import { MomentumStrategy } from './momentum';
+import { MeanReversionStrategy } from './mean-reversion';
+import { NarrativeCascadeStrategy } from './narrative-cascade';
+import { SmartDCAStrategy } from './smart-dca';
+import { VolatilityBreakoutStrategy } from './volatility-breakout';
+
+/**
+ * Strategy classes by registry key, for creating fresh instances
+ */
+export const StrategyClasses = {
+  momentum: MomentumStrategy,
+  meanReversion: MeanReversionStrategy,
+  narrativeCascade: NarrativeCascadeStrategy,
+  smartDCA: SmartDCAStrategy,
+  volatilityBreakout: VolatilityBreakoutStrategy,
+};
+
+export type StrategyKey = keyof typeof StrategyClasses;
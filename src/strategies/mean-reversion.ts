@@ -148,7 +148,7 @@ export class MeanReversionStrategy extends BaseStrategy {
 
     return {
       marketId: market.id,
-      timestamp: new Date(),
+      timestamp: this.now(),
       technicals,
       fundamentals,
       sentiment,
@@ -252,7 +252,7 @@ export class MeanReversionStrategy extends BaseStrategy {
           mean,
           atr: analysis.technicals.indicators.atr,
         },
-        expiresAt: new Date(Date.now() + 12 * 60 * 60 * 1000), // 12 hours
+        expiresAt: new Date(this.now().getTime() + 12 * 60 * 60 * 1000), // 12 hours
       }
     );
   }
@@ -319,7 +319,7 @@ export class MeanReversionStrategy extends BaseStrategy {
       : impliedProbability;
 
     const mispricing = historicalMean - impliedProbability;
-    const timeToResolution = (market.endDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24);
+    const timeToResolution = (market.endDate.getTime() - this.now().getTime()) / (1000 * 60 * 60 * 24);
 
     return {
       impliedProbability,
@@ -439,7 +439,7 @@ export class MeanReversionStrategy extends BaseStrategy {
 
     // Don't trade near resolution
     if (signal.expiresAt) {
-      const hoursLeft = (signal.expiresAt.getTime() - Date.now()) / (1000 * 60 * 60);
+      const hoursLeft = (signal.expiresAt.getTime() - this.now().getTime()) / (1000 * 60 * 60);
       if (hoursLeft < 2) return false;
     }
 
@@ -165,7 +165,7 @@ export class MomentumStrategy extends BaseStrategy {
 
     return {
       marketId: market.id,
-      timestamp: new Date(),
+      timestamp: this.now(),
       technicals,
       fundamentals,
       sentiment,
@@ -230,7 +230,7 @@ export class MomentumStrategy extends BaseStrategy {
           momentum: analysis.technicals.momentum,
           score: analysis.score,
         },
-        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
+        expiresAt: new Date(this.now().getTime() + 24 * 60 * 60 * 1000), // 24 hours
       }
     );
   }
@@ -296,7 +296,7 @@ export class MomentumStrategy extends BaseStrategy {
     const estimatedFairValue = impliedProbability * (0.5 + volumeWeight * 0.25 + liquidityWeight * 0.25);
 
     const mispricing = estimatedFairValue - impliedProbability;
-    const timeToResolution = (market.endDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24);
+    const timeToResolution = (market.endDate.getTime() - this.now().getTime()) / (1000 * 60 * 60 * 24);
 
     return {
       impliedProbability,
@@ -189,7 +189,7 @@ export class NarrativeCascadeStrategy extends BaseStrategy {
 
     return {
       marketId: market.id,
-      timestamp: new Date(),
+      timestamp: this.now(),
       technicals,
       fundamentals,
       sentiment,
@@ -213,7 +213,7 @@ export class NarrativeCascadeStrategy extends BaseStrategy {
     }
 
     // Check pending cascades
-    const now = new Date();
+    const now = this.now();
     for (const [marketId, triggerTime] of this.pendingCascades) {
       if (now >= triggerTime) {
         const targetMarket = markets.find(m => m.id === marketId);
@@ -262,7 +262,7 @@ export class NarrativeCascadeStrategy extends BaseStrategy {
       // Schedule delayed execution if configured
       if (link.lag > 0 || cascadeDelay > 0) {
         const delay = Math.max(link.lag, cascadeDelay);
-        const triggerTime = new Date(Date.now() + delay * 60 * 60 * 1000);
+        const triggerTime = new Date(this.now().getTime() + delay * 60 * 60 * 1000);
         this.pendingCascades.set(link.targetMarket, triggerTime);
         continue;
       }
@@ -293,7 +293,7 @@ export class NarrativeCascadeStrategy extends BaseStrategy {
             sourceResolution: resolvedYes ? 1 : 0,
             allocationWeight: normalizedWeight,
           },
-          expiresAt: new Date(Date.now() + 48 * 60 * 60 * 1000),
+          expiresAt: new Date(this.now().getTime() + 48 * 60 * 60 * 1000),
           metadata: {
             cascadeSource: resolvedMarket.id,
             cascadeType: link.correlation,
@@ -374,7 +374,7 @@ export class NarrativeCascadeStrategy extends BaseStrategy {
 
   private calculateFundamentals(market: MarketSnapshot): FundamentalAnalysis {
     const primaryOutcome = market.outcomes[0];
-    const timeToResolution = (market.endDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24);
+    const timeToResolution = (market.endDate.getTime() - this.now().getTime()) / (1000 * 60 * 60 * 24);
 
     return {
       impliedProbability: primaryOutcome.price,
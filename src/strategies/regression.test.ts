@@ -0,0 +1,142 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { BacktestResult, IStrategy, MarketSnapshot } from '../types';
+import { BacktestEngine } from '../backtesting/engine';
+import type { MarketDataProvider } from '../backtesting/engine';
+import { SyntheticMarketDataProvider } from '../backtesting/synthetic';
+import { MomentumStrategy } from './momentum';
+import { MeanReversionStrategy } from './mean-reversion';
+import { NarrativeCascadeStrategy } from './narrative-cascade';
+import { SmartDCAStrategy } from './smart-dca';
+import { VolatilityBreakoutStrategy } from './volatility-breakout';
+import { round } from '../test-helpers';
+
+const START = new Date('2024-01-01T00:00:00Z');
+const END = new Date('2024-03-01T00:00:00Z');
+
+// Two early markets resolve a month before the rest, so cascades have
+// something to react to
+const early = new SyntheticMarketDataProvider({
+  seed: 8,
+  markets: 2,
+  endDate: new Date('2024-02-01T00:00:00Z'),
+});
+const late = new SyntheticMarketDataProvider({ seed: 7, markets: 6, clusters: 2, endDate: END });
+const EARLY_MARKETS = ['early-1', 'early-2'];
+const LATE_MARKETS = ['synthetic-1', 'synthetic-2', 'synthetic-3', 'synthetic-4', 'synthetic-5', 'synthetic-6'];
+
+const provider: MarketDataProvider = {
+  async getHistoricalData(marketId, startDate, endDate) {
+    if (!marketId.startsWith('early-')) return late.getHistoricalData(marketId, startDate, endDate);
+
+    const snapshots = await early.getHistoricalData(
+      marketId.replace('early-', 'synthetic-'),
+      startDate,
+      endDate
+    );
+    return snapshots.map((snapshot): MarketSnapshot => ({
+      ...snapshot,
+      id: marketId,
+      outcomes: snapshot.outcomes.map(outcome => ({
+        ...outcome,
+        id: outcome.id.replace(/^synthetic-\d+/, marketId),
+      })),
+    }));
+  },
+};
+
+interface RegressionCase {
+  name: string;
+  createStrategy: () => IStrategy;
+  parameters?: Record<string, unknown>;
+}
+
+const STRATEGIES: RegressionCase[] = [
+  { name: 'momentum', createStrategy: () => new MomentumStrategy() },
+  { name: 'meanReversion', createStrategy: () => new MeanReversionStrategy() },
+  {
+    name: 'narrativeCascade',
+    createStrategy: () => new (class extends NarrativeCascadeStrategy {
+      protected async onInitialize(): Promise<void> {
+        await super.onInitialize();
+        this.defineNarrativeLinks(LATE_MARKETS.flatMap((targetMarket, i) =>
+          EARLY_MARKETS.map(sourceMarket => ({
+            sourceMarket,
+            targetMarket,
+            correlation: i % 2 === 0 ? 'positive' as const : 'negative' as const,
+            strength: 0.9,
+            lag: 0,
+            weight: 1,
+            reasoning: 'test link',
+          }))
+        ));
+      }
+    })(),
+    // Act on resolutions immediately rather than re-scoring the target later
+    parameters: { cascadeDelay: 0 },
+  },
+  {
+    name: 'smartDCA',
+    createStrategy: () => new (class extends SmartDCAStrategy {
+      protected async onInitialize(): Promise<void> {
+        await super.onInitialize();
+        for (const marketId of [...EARLY_MARKETS, ...LATE_MARKETS]) {
+          this.addToSchedule(marketId, `${marketId}-yes`, { startNow: true });
+        }
+      }
+    })(),
+  },
+  { name: 'volatilityBreakout', createStrategy: () => new VolatilityBreakoutStrategy() },
+];
+
+function backtest({ createStrategy, parameters }: RegressionCase): Promise<BacktestResult> {
+  const strategy = createStrategy();
+  return new BacktestEngine(provider).run(strategy, {
+    strategyId: strategy.config.id,
+    parameters: parameters || {},
+    startDate: START,
+    endDate: END,
+    initialCapital: 10000,
+    markets: [...EARLY_MARKETS, ...LATE_MARKETS],
+  });
+}
+
+/**
+ * Backtests every built-in strategy on seeded synthetic data. A changed
+ * summary snapshot means a change in trading behaviour: review it, then
+ * update the snapshot with `vitest run -u`.
+ */
+describe.each(STRATEGIES)('$name regression', (regressionCase) => {
+  let result: BacktestResult;
+
+  beforeAll(async () => {
+    result = await backtest(regressionCase);
+  });
+
+  it('trades and closes every position by the end', () => {
+    expect(result.trades.length).toBeGreaterThan(0);
+    for (const trade of result.trades) {
+      expect(trade.exitTime).toBeDefined();
+      expect(trade.exitTime!.getTime()).toBeGreaterThanOrEqual(trade.entryTime.getTime());
+      expect(trade.exitTime!.getTime()).toBeLessThanOrEqual(END.getTime());
+    }
+  });
+
+  it('ends with the initial capital plus the realized PnL', () => {
+    const pnl = result.trades.reduce((sum, trade) => sum + trade.pnl, 0);
+    const last = result.equityCurve[result.equityCurve.length - 1];
+
+    expect(last.equity).toBeCloseTo(10000 + pnl, 6);
+    expect(last.unrealizedPnl).toBeCloseTo(0, 6);
+    expect(result.summary.totalPnl).toBeCloseTo(pnl, 6);
+  });
+
+  it('is deterministic', async () => {
+    const again = await backtest(regressionCase);
+    expect(again.summary).toEqual(result.summary);
+    expect(again.trades.map(trade => trade.pnl)).toEqual(result.trades.map(trade => trade.pnl));
+  });
+
+  it('reproduces its recorded summary', () => {
+    expect(round(result.summary)).toMatchSnapshot();
+  });
+});
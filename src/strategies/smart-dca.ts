@@ -164,8 +164,8 @@ export class SmartDCAStrategy extends BaseStrategy {
       intervalHours: options.intervalHours || this.getParameter<number>('baseInterval'),
       baseAmount: options.baseAmount || this.getParameter<number>('baseAmount'),
       nextPurchase: options.startNow 
-        ? new Date() 
-        : new Date(Date.now() + (options.intervalHours || 24) * 60 * 60 * 1000),
+        ? this.now()
+        : new Date(this.now().getTime() + (options.intervalHours || 24) * 60 * 60 * 1000),
       totalInvested: 0,
       averagePrice: 0,
       shares: 0,
@@ -206,7 +206,7 @@ export class SmartDCAStrategy extends BaseStrategy {
 
     return {
       marketId: market.id,
-      timestamp: new Date(),
+      timestamp: this.now(),
       technicals,
       fundamentals,
       sentiment,
@@ -217,7 +217,7 @@ export class SmartDCAStrategy extends BaseStrategy {
 
   async generateSignals(markets: MarketSnapshot[]): Promise<Signal[]> {
     const signals: Signal[] = [];
-    const now = new Date();
+    const now = this.now();
 
     for (const market of markets) {
       if (market.resolved) continue;
@@ -439,7 +439,7 @@ export class SmartDCAStrategy extends BaseStrategy {
       mispricing: avgPrice - primaryOutcome.price,
       volume: market.volume24h,
       liquidity: market.liquidity,
-      timeToResolution: (market.endDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24),
+      timeToResolution: (market.endDate.getTime() - this.now().getTime()) / (1000 * 60 * 60 * 24),
     };
   }
 
@@ -501,7 +501,7 @@ export class SmartDCAStrategy extends BaseStrategy {
 
         // Track purchase history
         const history = this.purchaseHistory.get(signal.marketId) || [];
-        history.push({ price, amount, date: new Date() });
+        history.push({ price, amount, date: this.now() });
         this.purchaseHistory.set(signal.marketId, history);
       }
     }
@@ -161,7 +161,7 @@ export class VolatilityBreakoutStrategy extends BaseStrategy {
 
     return {
       marketId: market.id,
-      timestamp: new Date(),
+      timestamp: this.now(),
       technicals,
       fundamentals,
       sentiment,
@@ -209,8 +209,10 @@ export class VolatilityBreakoutStrategy extends BaseStrategy {
     }
 
     const atr = analysis.technicals.indicators.atr;
-    const stopDistance = this.getParameter<boolean>('trailingStop')
-      ? atr * this.getParameter<number>('trailingAtrMultiplier')
+    const trailingStop = this.getParameter<boolean>('trailingStop');
+    const trailingAtrMultiplier = this.getParameter<number>('trailingAtrMultiplier');
+    const stopDistance = trailingStop
+      ? atr * trailingAtrMultiplier
       : currentPrice * (this.getParameter<number>('fixedStopPercent') / 100);
 
     const stopLoss = breakout.direction === 'up'
@@ -244,11 +246,14 @@ export class VolatilityBreakoutStrategy extends BaseStrategy {
           channelLow: analysis.technicals.indicators.channelLow,
           compressionLevel: analysis.technicals.indicators.compressionLevel,
         },
-        expiresAt: new Date(Date.now() + 8 * 60 * 60 * 1000),
+        expiresAt: new Date(this.now().getTime() + 8 * 60 * 60 * 1000),
+        exitRules: trailingStop
+          ? { trailingStop: { type: 'atr', atr, multiplier: trailingAtrMultiplier } }
+          : undefined,
         metadata: {
           breakoutDirection: breakout.direction,
           breakoutPrice: breakout.triggerPrice,
-          isTrailingStop: this.getParameter<boolean>('trailingStop'),
+          isTrailingStop: trailingStop,
         },
       }
     );
@@ -312,7 +317,7 @@ export class VolatilityBreakoutStrategy extends BaseStrategy {
 
   private calculateFundamentals(market: MarketSnapshot): FundamentalAnalysis {
     const primaryOutcome = market.outcomes[0];
-    const timeToResolution = (market.endDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24);
+    const timeToResolution = (market.endDate.getTime() - this.now().getTime()) / (1000 * 60 * 60 * 24);
 
     return {
       impliedProbability: primaryOutcome.price,
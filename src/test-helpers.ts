@@ -0,0 +1,182 @@
+/**
+ * EdgePoly Strategies - Test Helpers
+ *
+ * Fixtures shared by the unit tests. Not exported from the package.
+ */
+
+import type { MarketDataProvider } from './backtesting/engine';
+import type {
+  Clock,
+  IStrategy,
+  MarketAnalysis,
+  MarketSnapshot,
+  OrderBookSnapshot,
+  Signal,
+  SignalResult,
+  StrategyConfig,
+  StrategyStatus,
+} from './types';
+import { systemClock } from './utils/clock';
+
+/**
+ * Round every number to ten significant digits, so snapshots do not depend
+ * on the last bits of Math.exp/log across Node versions
+ */
+export function round(value: unknown): unknown {
+  if (typeof value === 'number') return Number(value.toPrecision(10));
+  if (Array.isArray(value)) return value.map(round);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, round(item)]));
+  }
+  return value;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+export const TEST_START = new Date('2024-01-01T00:00:00Z');
+
+/**
+ * Time of the given hour after TEST_START
+ */
+export function hour(offset: number): Date {
+  return new Date(TEST_START.getTime() + offset * HOUR);
+}
+
+/**
+ * Hourly snapshots of a binary Yes/No market from a list of Yes prices,
+ * resolving on the last snapshot when resolution is given
+ */
+export function binaryMarket(
+  id: string,
+  yesPrices: number[],
+  resolution?: 'Yes' | 'No'
+): MarketSnapshot[] {
+  return yesPrices.map((price, i) => {
+    const previous = yesPrices[Math.max(0, i - 1)];
+    const resolved = resolution !== undefined && i === yesPrices.length - 1;
+    return {
+      id,
+      question: `${id}?`,
+      outcomes: [
+        { id: `${id}-yes`, name: 'Yes', price, previousPrice: previous, priceChange24h: 0, volume24h: 1000 },
+        { id: `${id}-no`, name: 'No', price: 1 - price, previousPrice: 1 - previous, priceChange24h: 0, volume24h: 1000 },
+      ],
+      volume: 10000,
+      volume24h: 1000,
+      liquidity: 5000,
+      resolved,
+      resolutionOutcome: resolved ? resolution : undefined,
+      endDate: hour(yesPrices.length),
+      timestamp: hour(i),
+    };
+  });
+}
+
+/**
+ * Serves fixed snapshots per market
+ */
+export class MemoryMarketDataProvider implements MarketDataProvider {
+  constructor(
+    private markets: Record<string, MarketSnapshot[]>,
+    private orderBooks: Record<string, OrderBookSnapshot> = {}
+  ) {}
+
+  async getHistoricalData(marketId: string, startDate: Date, endDate: Date): Promise<MarketSnapshot[]> {
+    return (this.markets[marketId] || []).filter(
+      snapshot => snapshot.timestamp >= startDate && snapshot.timestamp <= endDate
+    );
+  }
+
+  async getOrderBook(_marketId: string, outcomeId: string): Promise<OrderBookSnapshot | undefined> {
+    return this.orderBooks[outcomeId];
+  }
+}
+
+export interface ScriptedSignal extends Partial<Signal> {
+  at: number; // hour after TEST_START the signal is emitted
+  marketId: string;
+  outcomeId: string;
+  type: 'buy' | 'sell';
+}
+
+/**
+ * Emits the given signals at the given hours and sizes every position at a
+ * fixed amount, recording what the engine reports back
+ */
+export class ScriptedStrategy implements IStrategy {
+  readonly config: StrategyConfig = {
+    id: 'scripted',
+    name: 'Scripted',
+    description: 'Emits fixed signals for engine tests',
+    category: 'momentum',
+    riskLevel: 'low',
+    timeHorizon: 'intraday',
+    minCapital: 0,
+    expectedReturn: { annual: 0, monthly: 0 },
+    maxDrawdown: 0,
+    winRate: 0,
+    parameters: {},
+  };
+
+  readonly seenTimes: Date[] = [];
+  readonly results: Array<{ signal: Signal; result: SignalResult }> = [];
+  private clock: Clock = systemClock;
+
+  constructor(private script: ScriptedSignal[], private positionSize: number = 100) {}
+
+  setClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  async initialize(): Promise<void> {}
+
+  async analyze(): Promise<MarketAnalysis> {
+    throw new Error('ScriptedStrategy does not analyze markets');
+  }
+
+  async generateSignals(markets: MarketSnapshot[]): Promise<Signal[]> {
+    const now = this.clock.now();
+    this.seenTimes.push(now);
+    const at = (now.getTime() - TEST_START.getTime()) / HOUR;
+
+    return this.script
+      .filter(entry => entry.at === at && markets.some(market => market.id === entry.marketId))
+      .map(({ at: _at, ...entry }, i) => ({
+        id: `signal-${at}-${i}`,
+        strategyId: this.config.id,
+        strength: 3,
+        confidence: 0.8,
+        reasoning: 'scripted',
+        indicators: {},
+        timestamp: now,
+        ...entry,
+      }));
+  }
+
+  async validateSignal(): Promise<boolean> {
+    return true;
+  }
+
+  getPositionSize(_signal: Signal, capital: number): number {
+    return Math.min(this.positionSize, capital);
+  }
+
+  onSignalExecuted(signal: Signal, result: SignalResult): void {
+    this.results.push({ signal, result });
+  }
+
+  getStatus(): StrategyStatus {
+    return {
+      isActive: true,
+      activePositions: 0,
+      totalSignals: this.script.length,
+      successRate: 0,
+      currentExposure: 0,
+    };
+  }
+
+  reset(): void {
+    this.seenTimes.length = 0;
+    this.results.length = 0;
+  }
+}
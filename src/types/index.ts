@@ -23,6 +23,14 @@ export type RiskLevel = 'low' | 'medium' | 'high' | 'very_high';
 
 export type TimeHorizon = 'scalp' | 'intraday' | 'swing' | 'position' | 'long_term';
 
+/**
+ * Source of the current time. Live trading uses the wall clock; backtests
+ * drive a simulated clock so time-dependent logic follows historical data.
+ */
+export interface Clock {
+  now(): Date;
+}
+
 // ============================================================================
 // Strategy Configuration
 // ============================================================================
@@ -84,9 +92,34 @@ export interface Signal {
   indicators: Record<string, number>;
   timestamp: Date;
   expiresAt?: Date;
+  exitRules?: ExitRules;
   metadata?: Record<string, unknown>;
 }
 
+export type TrailingStopRule =
+  | { type: 'absolute'; distance: number } // price units behind the best price
+  | { type: 'percent'; percent: number } // of the best price, e.g. 5 = 5%
+  | { type: 'atr'; atr: number; multiplier: number }; // ATR measured at entry
+
+export interface TakeProfitLevel {
+  price: number;
+  fraction: number; // 0-1 share of the initial size closed at this level
+}
+
+/**
+ * Exit management evaluated by the backtester at every step while a
+ * position is open, on top of the fixed stopLoss/takeProfit levels
+ */
+export interface ExitRules {
+  trailingStop?: TrailingStopRule;
+  breakEven?: {
+    trigger: number; // favourable move in price units that arms the rule
+    offset?: number; // stop is moved to entry plus this much in profit (default: 0)
+  };
+  maxHoldingHours?: number; // time stop
+  takeProfitLevels?: TakeProfitLevel[]; // scale out as each level is reached
+}
+
 export interface SignalResult {
   signalId: string;
   executed: boolean;
@@ -157,6 +190,26 @@ export interface BacktestConfig {
   maxConcurrentPositions?: number;
   slippage?: number;
   fees?: number;
+  benchmark?: BenchmarkConfig;
+  riskFreeRate?: number; // annual, e.g. 0.05 (default: 0)
+  periodsPerYear?: number; // return observations per year; inferred from snapshot spacing when omitted
+}
+
+/**
+ * Benchmark for alpha, beta and capture metrics. Market benchmarks hold the
+ * named outcome of each backtested market (default "Yes", else the first
+ * outcome): buy_and_hold splits capital equally once, buying each market
+ * at its first non-zero price (the share waits in cash until then),
+ * equal_weight rebalances to equal weights at every timestamp.
+ */
+export type BenchmarkConfig =
+  | { type: 'buy_and_hold'; outcome?: string }
+  | { type: 'equal_weight'; outcome?: string }
+  | { type: 'custom'; series: BenchmarkPoint[] };
+
+export interface BenchmarkPoint {
+  timestamp: Date;
+  equity: number;
 }
 
 export interface BacktestResult {
@@ -167,6 +220,8 @@ export interface BacktestResult {
   drawdowns: DrawdownPeriod[];
   monthlyReturns: MonthlyReturn[];
   metrics: PerformanceMetrics;
+  breakdowns: TradeBreakdowns;
+  benchmarkCurve?: BenchmarkPoint[]; // aligned to equityCurve, scaled to initial capital
 }
 
 export interface BacktestSummary {
@@ -186,6 +241,8 @@ export interface BacktestSummary {
   largestLoss: number;
   averageHoldingPeriod: number;
   exposure: number;
+  peakCapitalUtilization: number; // max share of equity committed to positions
+  maxLeverage: number; // max gross exposure / equity
 }
 
 export interface BacktestTrade {
@@ -202,12 +259,30 @@ export interface BacktestTrade {
   pnlPercent: number;
   fees: number;
   slippage: number;
+  exitReason: TradeExitReason;
+  maxAdverseExcursion: number; // % of entry price
+  maxFavorableExcursion: number; // % of entry price
   signal: Signal;
+  complementOf?: string; // outcome a sell signal targeted, when executed as a buy of its complement
 }
 
+export type TradeExitReason =
+  | 'stop_loss'
+  | 'trailing_stop'
+  | 'break_even'
+  | 'take_profit'
+  | 'time_stop'
+  | 'expired'
+  | 'resolution'
+  | 'end_of_backtest';
+
 export interface EquityPoint {
   timestamp: Date;
-  equity: number;
+  equity: number; // realized equity plus unrealized PnL
+  realizedEquity: number;
+  unrealizedPnl: number;
+  cash: number;
+  grossExposure: number;
   drawdown: number;
   drawdownPercent: number;
 }
@@ -226,12 +301,33 @@ export interface MonthlyReturn {
   year: number;
   month: number;
   return: number;
+  trades: number; // closed during the month
+  winRate: number;
+  pnl: number;
+}
+
+export interface TradeBreakdown {
+  key: string;
   trades: number;
+  winningTrades: number;
+  winRate: number;
+  pnl: number;
+  averagePnl: number;
+  profitFactor: number;
+}
+
+export interface TradeBreakdowns {
+  byMarket: TradeBreakdown[];
+  byOutcome: TradeBreakdown[]; // outcome name where known, e.g. "Yes" / "No"
+  byStrength: TradeBreakdown[];
+  byCategory: TradeBreakdown[];
+  bySide: TradeBreakdown[];
 }
 
 export interface PerformanceMetrics {
   cagr: number;
-  volatility: number;
+  volatility: number; // annualized
+  periodsPerYear: number; // annualization factor used for volatility and ratios
   sharpeRatio: number;
   sortinoRatio: number;
   calmarRatio: number;
@@ -244,7 +340,10 @@ export interface PerformanceMetrics {
   ulcerIndex: number;
   informationRatio?: number;
   beta?: number;
-  alpha?: number;
+  alpha?: number; // annualized
+  trackingError?: number; // annualized
+  upCapture?: number;
+  downCapture?: number;
 }
 
 // ============================================================================
@@ -322,6 +421,7 @@ export interface IStrategy {
   onSignalExecuted(signal: Signal, result: SignalResult): void;
   getStatus(): StrategyStatus;
   reset(): void;
+  setClock?(clock: Clock): void;
 }
 
 export interface StrategyStatus {
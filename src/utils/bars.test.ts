@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { buildPriceBars } from './bars';
+import { binaryMarket, hour, round } from '../test-helpers';
+
+const MINUTE = 60 * 1000;
+
+// Yes at 0.4, 0.5, 0.35, 0.6 at 00:00, 00:20, 00:40 and 02:10
+function snapshots() {
+  const volumes = [100, 130, 150, 200];
+  return binaryMarket('a', [0.4, 0.5, 0.35, 0.6]).map((snapshot, i) => ({
+    ...snapshot,
+    volume: volumes[i],
+    timestamp: new Date(hour(0).getTime() + [0, 20, 40, 130][i] * MINUTE),
+  }));
+}
+
+describe('buildPriceBars', () => {
+  it('aggregates OHLCV per outcome and fills empty intervals flat', () => {
+    const bars = buildPriceBars(snapshots(), { interval: '1h' });
+
+    expect(bars.get('a-yes')).toEqual([
+      { timestamp: hour(0), open: 0.4, high: 0.5, low: 0.35, close: 0.35, volume: 50 },
+      { timestamp: hour(1), open: 0.35, high: 0.35, low: 0.35, close: 0.35, volume: 0 },
+      { timestamp: hour(2), open: 0.6, high: 0.6, low: 0.6, close: 0.6, volume: 50 },
+    ]);
+    expect(round(bars.get('a-no')!.map(bar => [bar.open, bar.high, bar.low, bar.close])))
+      .toEqual([[0.6, 0.65, 0.5, 0.65], [0.65, 0.65, 0.65, 0.65], [0.4, 0.4, 0.4, 0.4]]);
+  });
+
+  it('leaves gaps when asked and keeps only the requested outcomes', () => {
+    const bars = buildPriceBars(snapshots(), { interval: 60 * MINUTE, outcomeIds: ['a-yes'], fillGaps: false });
+
+    expect([...bars.keys()]).toEqual(['a-yes']);
+    expect(bars.get('a-yes')!.map(bar => bar.timestamp)).toEqual([hour(0), hour(2)]);
+  });
+});
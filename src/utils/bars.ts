@@ -0,0 +1,82 @@
+/**
+ * EdgePoly Strategies - Price Bars
+ *
+ * Aggregates MarketSnapshot streams into OHLCV bars per outcome.
+ */
+
+import type { MarketSnapshot, PriceBar } from '../types';
+import { parseInterval } from './helpers';
+
+export interface PriceBarOptions {
+  interval: number | string; // milliseconds, or e.g. '15m', '1h', '1d'
+  outcomeIds?: string[]; // default: every outcome seen
+  fillGaps?: boolean; // emit flat, zero-volume bars for empty intervals (default: true)
+}
+
+/**
+ * Build OHLCV bars for each outcome from a time-ordered snapshot stream of a
+ * single market. Bars are aligned to UTC interval boundaries and stamped
+ * with their open time. Snapshots carry no per-outcome cumulative volume, so
+ * bar volume is the growth in the market's cumulative `volume` during the
+ * bar, shared by all of its outcomes.
+ */
+export function buildPriceBars(
+  snapshots: MarketSnapshot[],
+  options: PriceBarOptions
+): Map<string, PriceBar[]> {
+  const step = parseInterval(options.interval);
+  const fillGaps = options.fillGaps ?? true;
+  const wanted = options.outcomeIds ? new Set(options.outcomeIds) : undefined;
+  const bars = new Map<string, PriceBar[]>();
+
+  let previousVolume: number | undefined;
+
+  for (const snapshot of snapshots) {
+    const time = snapshot.timestamp.getTime();
+    const barTime = Math.floor(time / step) * step;
+    const volume = previousVolume !== undefined
+      ? Math.max(0, snapshot.volume - previousVolume)
+      : 0;
+    previousVolume = snapshot.volume;
+
+    for (const outcome of snapshot.outcomes) {
+      if (wanted && !wanted.has(outcome.id)) continue;
+
+      const series = bars.get(outcome.id) || [];
+      bars.set(outcome.id, series);
+      const current = series[series.length - 1];
+
+      if (current && current.timestamp.getTime() === barTime) {
+        current.high = Math.max(current.high, outcome.price);
+        current.low = Math.min(current.low, outcome.price);
+        current.close = outcome.price;
+        current.volume += volume;
+        continue;
+      }
+
+      if (current && fillGaps) {
+        for (let gap = current.timestamp.getTime() + step; gap < barTime; gap += step) {
+          series.push({
+            timestamp: new Date(gap),
+            open: current.close,
+            high: current.close,
+            low: current.close,
+            close: current.close,
+            volume: 0,
+          });
+        }
+      }
+
+      series.push({
+        timestamp: new Date(barTime),
+        open: outcome.price,
+        high: outcome.price,
+        low: outcome.price,
+        close: outcome.price,
+        volume,
+      });
+    }
+  }
+
+  return bars;
+}
@@ -0,0 +1,48 @@
+/**
+ * EdgePoly Strategies - Clocks
+ */
+
+import type { Clock } from '../types';
+
+/**
+ * Clock backed by the system wall-clock time
+ */
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+/**
+ * Manually driven clock for backtests and tests
+ */
+export class SimulatedClock implements Clock {
+  private current: number;
+
+  constructor(start: Date = new Date(0)) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  /**
+   * Move the clock to an absolute time
+   */
+  set(date: Date): void {
+    this.current = date.getTime();
+  }
+
+  /**
+   * Move the clock forward by milliseconds
+   */
+  advance(ms: number): void {
+    this.current += ms;
+  }
+}
+
+/**
+ * Shared live clock used as the default everywhere
+ */
+export const systemClock: Clock = new SystemClock();
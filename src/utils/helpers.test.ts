@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { inferPeriodsPerYear, sharpeRatio, sortinoRatio, toPeriodicRate } from './helpers';
+import { hour } from '../test-helpers';
+
+// Mean 0.05, standard deviation sqrt(0.00375), one loss of 0.05
+const returns = [0.1, -0.05, 0.1, 0.05];
+
+describe('sharpeRatio', () => {
+  it('scales the per-period ratio by the square root of periods per year', () => {
+    expect(sharpeRatio(returns)).toBeCloseTo(Math.sqrt(2 / 3), 12);
+    expect(sharpeRatio(returns, 0, 4)).toBeCloseTo(2 * Math.sqrt(2 / 3), 12);
+  });
+
+  it('subtracts the per-period risk-free rate', () => {
+    expect(sharpeRatio(returns, 0.01)).toBeCloseTo(0.04 / Math.sqrt(0.00375), 12);
+  });
+
+  it('is zero without returns or variation', () => {
+    expect(sharpeRatio([])).toBe(0);
+    expect(sharpeRatio([0.01, 0.01])).toBe(0);
+  });
+});
+
+describe('sortinoRatio', () => {
+  it('divides by the deviation of returns below the risk-free rate', () => {
+    expect(sortinoRatio(returns)).toBeCloseTo(1, 12);
+    expect(sortinoRatio(returns, 0, 4)).toBeCloseTo(2, 12);
+    // 0.05 now falls short as well: downside deviation sqrt((0.11^2 + 0.01^2) / 2)
+    expect(sortinoRatio(returns, 0.06)).toBeCloseTo(-0.01 / Math.sqrt(0.0061), 12);
+  });
+
+  it('is infinite without downside returns', () => {
+    expect(sortinoRatio([0.1, 0.2])).toBe(Infinity);
+  });
+});
+
+describe('inferPeriodsPerYear', () => {
+  it('uses the median spacing of the timestamps', () => {
+    expect(inferPeriodsPerYear([hour(0), hour(1), hour(2), hour(24)])).toBeCloseTo(8760, 8);
+    expect(inferPeriodsPerYear([hour(0), hour(24), hour(48), hour(96)])).toBeCloseTo(365, 8);
+    // Repeated timestamps are not gaps
+    expect(inferPeriodsPerYear([hour(0), hour(0), hour(4), hour(8)])).toBeCloseTo(2190, 8);
+  });
+
+  it('falls back without any gap', () => {
+    expect(inferPeriodsPerYear([hour(0)])).toBe(365);
+    expect(inferPeriodsPerYear([], 52)).toBe(52);
+  });
+});
+
+describe('toPeriodicRate', () => {
+  it('compounds back to the annual rate', () => {
+    expect(toPeriodicRate(0.1, 1)).toBeCloseTo(0.1, 12);
+    expect(Math.pow(1 + toPeriodicRate(0.1, 12), 12)).toBeCloseTo(1.1, 12);
+    expect(toPeriodicRate(0, 8760)).toBe(0);
+  });
+});
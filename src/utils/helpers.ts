@@ -9,6 +9,21 @@ export function generateId(): string {
   return Math.random().toString(36).substring(2) + Date.now().toString(36);
 }
 
+/**
+ * Create a seeded pseudo-random generator returning values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  // mulberry32
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 /**
  * Format currency
  */
@@ -77,6 +92,30 @@ export function timeDiff(date: Date): string {
   return 'just now';
 }
 
+/**
+ * Bar interval in milliseconds, or minutes, hours or days such as '4h'
+ */
+export type ResampleInterval = number | `${number}${'m' | 'h' | 'd'}`;
+
+/**
+ * Convert an interval such as '15m', '4h' or '1d' (or milliseconds) to
+ * milliseconds
+ */
+export function parseInterval(interval: number | string): number {
+  if (typeof interval === 'number') {
+    if (!(interval > 0)) throw new Error(`Invalid interval: ${interval}`);
+    return interval;
+  }
+
+  const match = /^(\d+(?:\.\d+)?)(m|h|d)$/.exec(interval);
+  if (!match || Number(match[1]) <= 0) {
+    throw new Error(`Invalid interval '${interval}'; expected e.g. '15m', '4h' or '1d'`);
+  }
+
+  const unit = { m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit;
+}
+
 /**
  * Deep clone an object
  */
@@ -158,11 +197,13 @@ export function percentile(values: number[], p: number): number {
 }
 
 /**
- * Calculate Sharpe ratio
+ * Calculate Sharpe ratio. riskFreeRate is per period; pass periodsPerYear
+ * to annualize.
  */
 export function sharpeRatio(
   returns: number[],
-  riskFreeRate: number = 0
+  riskFreeRate: number = 0,
+  periodsPerYear: number = 1
 ): number {
   if (returns.length === 0) return 0;
   
@@ -174,15 +215,17 @@ export function sharpeRatio(
   const stdDev = Math.sqrt(variance);
   
   if (stdDev === 0) return 0;
-  return excessReturn / stdDev;
+  return (excessReturn / stdDev) * Math.sqrt(periodsPerYear);
 }
 
 /**
- * Calculate Sortino ratio
+ * Calculate Sortino ratio. riskFreeRate is per period; pass periodsPerYear
+ * to annualize.
  */
 export function sortinoRatio(
   returns: number[],
-  riskFreeRate: number = 0
+  riskFreeRate: number = 0,
+  periodsPerYear: number = 1
 ): number {
   if (returns.length === 0) return 0;
   
@@ -198,7 +241,52 @@ export function sortinoRatio(
   const downDev = Math.sqrt(downVariance);
   
   if (downDev === 0) return 0;
-  return excessReturn / downDev;
+  return (excessReturn / downDev) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Number of return observations per year implied by the median spacing of
+ * the timestamps. Prediction markets trade 24/7, so a year is 365 days of
+ * hourly, daily, etc. bars rather than 252 trading days.
+ */
+export function inferPeriodsPerYear(timestamps: Date[], fallback: number = 365): number {
+  const gaps = timestamps
+    .slice(1)
+    .map((t, i) => t.getTime() - timestamps[i].getTime())
+    .filter(gap => gap > 0);
+  const step = median(gaps);
+
+  return step > 0 ? (365 * 24 * 60 * 60 * 1000) / step : fallback;
+}
+
+/**
+ * Convert an annual rate to the equivalent compounded rate per period
+ */
+export function toPeriodicRate(annualRate: number, periodsPerYear: number): number {
+  return Math.pow(1 + annualRate, 1 / periodsPerYear) - 1;
+}
+
+/**
+ * Pearson correlation of two equally long series, 0 when either is flat
+ */
+export function correlation(x: number[], y: number[]): number {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return 0;
+
+  const meanX = x.slice(0, n).reduce((a, b) => a + b, 0) / n;
+  const meanY = y.slice(0, n).reduce((a, b) => a + b, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += Math.pow(x[i] - meanX, 2);
+    varianceY += Math.pow(y[i] - meanY, 2);
+  }
+
+  const denominator = Math.sqrt(varianceX * varianceY);
+  return denominator > 0 ? covariance / denominator : 0;
 }
 
 /**
@@ -4,3 +4,5 @@
 
 export * from './indicators';
 export * from './helpers';
+export * from './clock';
+export * from './bars';
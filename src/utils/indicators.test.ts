@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { PriceBar } from '../types';
+import {
+  calculateBarADX,
+  calculateBarATR,
+  calculateBarStochastic,
+  calculateBarWilliamsR,
+} from './indicators';
+import { hour } from '../test-helpers';
+
+function bar(i: number, high: number, low: number, close: number): PriceBar {
+  return { timestamp: hour(i), open: low, high, low, close, volume: 0 };
+}
+
+// The third bar gaps up, so its true range reaches back to the prior close
+const bars = [
+  bar(0, 0.5, 0.4, 0.45),
+  bar(1, 0.55, 0.45, 0.5),
+  bar(2, 0.7, 0.65, 0.68),
+  bar(3, 0.7, 0.6, 0.62),
+];
+
+// Steady moves of 0.01 per bar with a 0.02 range
+function trend(direction: 1 | -1, count: number): PriceBar[] {
+  return Array.from({ length: count }, (_, i) => {
+    const low = 0.5 + direction * 0.01 * i;
+    return bar(i, low + 0.02, low, low + 0.01);
+  });
+}
+
+describe('bar indicators', () => {
+  it('averages true ranges with Wilder smoothing', () => {
+    // True ranges 0.1, 0.2, 0.1
+    expect(calculateBarATR(bars, 14)).toBeCloseTo(0.4 / 3, 12);
+    expect(calculateBarATR(bars, 2)).toBeCloseTo(0.125, 12);
+    expect(calculateBarATR(bars.slice(0, 1))).toBeCloseTo(0.1, 12);
+    expect(calculateBarATR([])).toBe(0);
+  });
+
+  it('measures trend strength and direction with ADX', () => {
+    const up = calculateBarADX(trend(1, 8), 3);
+    expect(up.adx).toBeCloseTo(100, 8);
+    expect(up.plusDI).toBeCloseTo(50, 8);
+    expect(up.minusDI).toBe(0);
+
+    const down = calculateBarADX(trend(-1, 8), 3);
+    expect(down.minusDI).toBeCloseTo(50, 8);
+    expect(down.plusDI).toBe(0);
+
+    expect(calculateBarADX(trend(1, 5), 3)).toEqual({ adx: 25, plusDI: 0, minusDI: 0 });
+  });
+
+  it('places the close within the high-low range for Stochastic and Williams %R', () => {
+    const { k, d } = calculateBarStochastic(bars, 3, 2);
+    expect(k).toBeCloseTo(68, 10);
+    expect(d).toBeCloseTo((0.28 / 0.3 * 100 + 68) / 2, 10);
+    expect(calculateBarWilliamsR(bars, 3)).toBeCloseTo(-32, 10);
+
+    expect(calculateBarStochastic(bars, 5)).toEqual({ k: 50, d: 50 });
+    expect(calculateBarWilliamsR([bar(0, 0.5, 0.5, 0.5)], 1)).toBe(-50);
+  });
+});
@@ -4,6 +4,8 @@
  * Collection of technical analysis indicators for prediction market analysis.
  */
 
+import type { PriceBar } from '../types';
+
 // ============================================================================
 // Moving Averages
 // ============================================================================
@@ -425,6 +427,134 @@ export function calculateTrendStrength(data: number[], period: number = 20): num
   return (trendBars / (slice.length - 1)) * 100;
 }
 
+// ============================================================================
+// Bar Indicators (true high/low/close)
+// ============================================================================
+
+/**
+ * True range of each bar after the first
+ */
+function trueRanges(bars: PriceBar[]): number[] {
+  const ranges: number[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const previousClose = bars[i - 1].close;
+    ranges.push(Math.max(
+      bars[i].high - bars[i].low,
+      Math.abs(bars[i].high - previousClose),
+      Math.abs(bars[i].low - previousClose)
+    ));
+  }
+  return ranges;
+}
+
+/**
+ * Wilder smoothing: seed with the average of the first period values
+ */
+function wilderSmooth(values: number[], period: number): number[] {
+  if (values.length < period) return [];
+
+  let current = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  const smoothed = [current];
+  for (let i = period; i < values.length; i++) {
+    current = (current * (period - 1) + values[i]) / period;
+    smoothed.push(current);
+  }
+  return smoothed;
+}
+
+/**
+ * Average True Range (ATR) from OHLC bars
+ */
+export function calculateBarATR(bars: PriceBar[], period: number = 14): number {
+  if (bars.length === 0) return 0;
+  if (bars.length === 1) return bars[0].high - bars[0].low;
+
+  const ranges = trueRanges(bars);
+  if (ranges.length < period) {
+    return ranges.reduce((a, b) => a + b, 0) / ranges.length;
+  }
+
+  const smoothed = wilderSmooth(ranges, period);
+  return smoothed[smoothed.length - 1];
+}
+
+/**
+ * Average Directional Index (ADX) from OHLC bars, with Wilder's directional
+ * movement and smoothing
+ */
+export function calculateBarADX(
+  bars: PriceBar[],
+  period: number = 14
+): { adx: number; plusDI: number; minusDI: number } {
+  if (bars.length < period * 2) return { adx: 25, plusDI: 0, minusDI: 0 }; // Neutral
+
+  const plusDM: number[] = [];
+  const minusDM: number[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const upMove = bars[i].high - bars[i - 1].high;
+    const downMove = bars[i - 1].low - bars[i].low;
+    plusDM.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    minusDM.push(downMove > upMove && downMove > 0 ? downMove : 0);
+  }
+
+  const atr = wilderSmooth(trueRanges(bars), period);
+  const smoothedPlus = wilderSmooth(plusDM, period);
+  const smoothedMinus = wilderSmooth(minusDM, period);
+
+  const dx: number[] = [];
+  let plusDI = 0;
+  let minusDI = 0;
+  for (let i = 0; i < atr.length; i++) {
+    plusDI = atr[i] > 0 ? (smoothedPlus[i] / atr[i]) * 100 : 0;
+    minusDI = atr[i] > 0 ? (smoothedMinus[i] / atr[i]) * 100 : 0;
+    const total = plusDI + minusDI;
+    dx.push(total > 0 ? (Math.abs(plusDI - minusDI) / total) * 100 : 0);
+  }
+
+  const adx = wilderSmooth(dx, period);
+  return { adx: adx[adx.length - 1], plusDI, minusDI };
+}
+
+/**
+ * Stochastic Oscillator from OHLC bars
+ */
+export function calculateBarStochastic(
+  bars: PriceBar[],
+  kPeriod: number = 14,
+  dPeriod: number = 3
+): { k: number; d: number } {
+  if (bars.length < kPeriod) return { k: 50, d: 50 };
+
+  const kValues: number[] = [];
+  for (let i = kPeriod - 1; i < bars.length; i++) {
+    const slice = bars.slice(i - kPeriod + 1, i + 1);
+    const high = Math.max(...slice.map(b => b.high));
+    const low = Math.min(...slice.map(b => b.low));
+
+    kValues.push(high !== low ? ((bars[i].close - low) / (high - low)) * 100 : 50);
+  }
+
+  const k = kValues[kValues.length - 1];
+  const d = calculateSMA(kValues.slice(-dPeriod), dPeriod);
+
+  return { k, d };
+}
+
+/**
+ * Williams %R from OHLC bars
+ */
+export function calculateBarWilliamsR(bars: PriceBar[], period: number = 14): number {
+  if (bars.length < period) return -50;
+
+  const slice = bars.slice(-period);
+  const high = Math.max(...slice.map(b => b.high));
+  const low = Math.min(...slice.map(b => b.low));
+  const current = bars[bars.length - 1].close;
+
+  if (high === low) return -50;
+  return ((high - current) / (high - low)) * -100;
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================